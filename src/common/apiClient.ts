@@ -10,11 +10,21 @@ import {
   OPENAI_API_KEY, 
   validateProvider, 
   getDefaultProvider,
+  getModel,
+  resolveProvider,
   type AIProvider, 
   type ReasoningEffort 
 } from "./providerConfig.js";
-import { formatTokenInfo, type TokenUsage } from "./tokenFormatter.js";
+import {
+  formatSamplingTokenInfo,
+  formatTokenInfo,
+  type TokenUsage,
+} from "./tokenFormatter.js";
 import { buildUserPrompt, type PromptConfig } from "./promptBuilder.js";
+import type { ProgressReporter, Sampler } from "../core/ToolCommand.js";
+import { rateLimiter } from "../core/RateLimiter.js";
+import { tracer, SpanKind } from "../infra/tracing.js";
+import { eventBus } from "../infra/eventBus.js";
 
 export interface AICallConfig {
   systemPrompt: string;
@@ -23,8 +33,23 @@ export interface AICallConfig {
   analysisType: "comprehensive" | "advice" | "research" | "review";
   reasoningEffort: ReasoningEffort;
   provider: AIProvider;
+  /** Persona the call is made for; provider metrics are kept per persona too */
+  personaId?: string;
+  /** `provider` was named by the caller or persona, not picked by the heuristic */
+  providerNamed?: boolean;
+  /** Cancels the in-flight provider HTTP request */
+  signal?: AbortSignal;
+  /** Receives a stage update before the provider call */
+  progress?: ProgressReporter;
+  /** Client model for the sampling provider, and the fallback when no API key is set */
+  sample?: Sampler;
+  /** Called once the provider checks pass, just before the request is sent */
+  onSend?: () => void;
 }
 
+// Completion budget requested from the client's model
+const SAMPLING_MAX_TOKENS = 8192;
+
 async function callXaiProvider(config: AICallConfig): Promise<string> {
   const userPrompt = buildUserPrompt({
     task: config.task,
@@ -33,12 +58,18 @@ async function callXaiProvider(config: AICallConfig): Promise<string> {
   });
 
   const result = await generateText({
-    model: xai("grok-4"),
+    model: xai(getModel("xai")),
     messages: [
       { role: "system", content: config.systemPrompt },
       { role: "user", content: userPrompt },
     ],
     // Note: xAI doesn't support reasoningEffort parameter
+    abortSignal: config.signal,
+  });
+
+  tracer.activeSpan()?.setAttributes({
+    "gen_ai.usage.input_tokens": result.usage?.promptTokens,
+    "gen_ai.usage.output_tokens": result.usage?.completionTokens,
   });
 
   const tokenInfo = formatTokenInfo("xai", result.usage, config.reasoningEffort);
@@ -56,38 +87,120 @@ async function callOpenAIProvider(config: AICallConfig): Promise<string> {
     analysisType: config.analysisType,
   });
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-5",
-    messages: [
-      { role: "system", content: config.systemPrompt },
-      { role: "user", content: userPrompt },
-    ],
-    reasoning_effort: config.reasoningEffort as any, // GPT-5 supports this
-  });
+  const response = await openai.chat.completions.create(
+    {
+      model: getModel("openai"),
+      messages: [
+        { role: "system", content: config.systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      reasoning_effort: config.reasoningEffort as any, // GPT-5 supports this
+    },
+    { signal: config.signal }
+  );
 
   const assistantMessage = response.choices?.[0]?.message?.content ?? "No response from model.";
   const usage: TokenUsage = {
     totalTokens: (response.usage as any)?.total_tokens,
     reasoning_tokens: (response.usage as any)?.reasoning_tokens,
   };
+  tracer.activeSpan()?.setAttributes({
+    "gen_ai.response.model": response.model,
+    "gen_ai.usage.input_tokens": response.usage?.prompt_tokens,
+    "gen_ai.usage.output_tokens": response.usage?.completion_tokens,
+    "gen_ai.usage.reasoning_tokens":
+      response.usage?.completion_tokens_details?.reasoning_tokens ?? usage.reasoning_tokens,
+  });
 
   const tokenInfo = formatTokenInfo("openai", usage, config.reasoningEffort);
   return assistantMessage + tokenInfo;
 }
 
+async function callSamplingProvider(config: AICallConfig): Promise<string> {
+  const userPrompt = buildUserPrompt({
+    task: config.task,
+    code: config.code,
+    analysisType: config.analysisType,
+  });
+
+  // Checked by validateProvider
+  const result = await config.sample!({
+    systemPrompt: config.systemPrompt,
+    prompt: userPrompt,
+    maxTokens: SAMPLING_MAX_TOKENS,
+    signal: config.signal,
+  });
+
+  tracer.activeSpan()?.setAttributes({ "gen_ai.response.model": result.model });
+
+  return result.text + formatSamplingTokenInfo(result.model, config.reasoningEffort);
+}
+
 export async function callAIProvider(config: AICallConfig): Promise<string> {
-  validateProvider(config.provider);
-
-  if (config.provider === "xai") {
-    // xAI doesn't support reasoning_effort, so create config without it
-    const xaiConfig = {
-      ...config,
-      reasoningEffort: undefined as any // Remove for xAI
-    };
-    return callXaiProvider(xaiConfig);
-  } else if (config.provider === "openai") {
-    return callOpenAIProvider(config);
-  } else {
-    throw new Error(`Unsupported provider: ${config.provider}`);
+  // Without any API key, fall back to the client's model
+  config = {
+    ...config,
+    provider: resolveProvider(config.provider, Boolean(config.sample), config.providerNamed),
+  };
+  const model = config.provider === "sampling" ? undefined : getModel(config.provider);
+  return tracer.withSpan(
+    `chat ${model ?? config.provider}`,
+    () => {
+      validateProvider(config.provider, Boolean(config.sample));
+      rateLimiter.take("provider", config.provider);
+      config.signal?.throwIfAborted();
+      config.progress?.({ message: `waiting for ${config.provider} response` });
+      config.onSend?.();
+      return sendToProvider(config);
+    },
+    {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        "gen_ai.operation.name": "chat",
+        "gen_ai.system": config.provider,
+        "gen_ai.request.model": model,
+        "gen_ai.request.reasoning_effort": config.reasoningEffort,
+        "mcp.analysis_type": config.analysisType,
+      },
+    }
+  );
+}
+
+/**
+ * Send the request to the resolved provider and report the call's outcome
+ * and latency for per-provider and per-persona metrics
+ */
+async function sendToProvider(config: AICallConfig): Promise<string> {
+  const startTime = Date.now();
+  const report = (error?: Error) =>
+    eventBus.emit("provider:call", {
+      provider: config.provider,
+      persona: config.personaId,
+      success: !error,
+      executionTime: Date.now() - startTime,
+      error,
+    });
+
+  try {
+    let text: string;
+    if (config.provider === "xai") {
+      // xAI doesn't support reasoning_effort, so create config without it
+      const xaiConfig = {
+        ...config,
+        reasoningEffort: undefined as any // Remove for xAI
+      };
+      text = await callXaiProvider(xaiConfig);
+    } else if (config.provider === "openai") {
+      text = await callOpenAIProvider(config);
+    } else if (config.provider === "sampling") {
+      text = await callSamplingProvider(config);
+    } else {
+      throw new Error(`Unsupported provider: ${config.provider}`);
+    }
+    report();
+    return text;
+  } catch (error) {
+    report(error instanceof Error ? error : new Error(String(error)));
+    throw error;
   }
 }
@@ -0,0 +1,26 @@
+/**
+ * Minimal command-line flag helpers
+ */
+
+/**
+ * Read every value of a `--flag value` or `--flag=value` option from argv
+ */
+export function readFlags(argv: string[], flag: string): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${flag}` && i + 1 < argv.length) {
+      values.push(argv[++i]);
+    } else if (arg.startsWith(`--${flag}=`)) {
+      values.push(arg.slice(flag.length + 3));
+    }
+  }
+  return values;
+}
+
+/**
+ * Read the first value of a `--flag value` or `--flag=value` option from argv
+ */
+export function readFlag(argv: string[], flag: string): string | undefined {
+  return readFlags(argv, flag)[0];
+}
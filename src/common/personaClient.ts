@@ -10,6 +10,13 @@ import {
   type ReasoningEffort,
 } from "./providerConfig.js";
 import { Persona, PersonaContext, PersonaRegistry } from "../personas/types.js";
+import {
+  ToolValidationError,
+  type ProgressReporter,
+  type Sampler,
+} from "../core/ToolCommand.js";
+import { tracer } from "../infra/tracing.js";
+import { rateLimiter } from "../core/RateLimiter.js";
 
 export interface PersonaCallConfig {
   /** System prompt to use as base */
@@ -36,6 +43,9 @@ export interface PersonaCallConfig {
   /** Persona ID to use */
   personaId: string;
 
+  /** Tool making the call, named in errors (defaults to "persona") */
+  toolName?: string;
+
   /** Conversation context if available */
   conversationContext?: string[];
 
@@ -53,6 +63,15 @@ export interface PersonaCallConfig {
 
   /** User constraints for empathy */
   userConstraints?: string;
+
+  /** Cancels the in-flight provider request */
+  signal?: AbortSignal;
+
+  /** Receives stage updates (prompt assembly, provider call) */
+  progress?: ProgressReporter;
+
+  /** Client model for the sampling provider */
+  sample?: Sampler;
 }
 
 /**
@@ -82,7 +101,17 @@ export async function callAIWithPersona(
     const persona = PersonaRegistry.get(personaId);
 
     if (!persona) {
-      throw new Error(`Persona '${personaId}' not found in registry`);
+      const available = PersonaRegistry.list()
+        .map((p) => p.id)
+        .join(", ");
+      throw new ToolValidationError(
+        config.toolName ?? "persona",
+        `Persona '${personaId}' not found. Available personas: ${
+          available || "none registered"
+        }`,
+        undefined,
+        { remediation: "Use the 'discover' tool to list personas" }
+      );
     }
 
     // Auto-select provider with persona preference and optional override
@@ -121,28 +150,70 @@ export async function callAIWithPersona(
       providerOverride: config.providerOverride,
     };
 
-    // Enhance prompts with persona
-    enhancedSystemPrompt = persona.enhanceSystemPrompt(systemPrompt, context);
-    enhancedTask = persona.enhanceUserPrompt(task, context);
-
-    // Call AI provider with enhanced prompts
-    response = await callAIProvider({
-      systemPrompt: enhancedSystemPrompt,
-      task: enhancedTask,
-      code,
-      analysisType,
-      reasoningEffort: effectiveReasoningEffort,
-      provider: selectedProvider,
-    });
+    const spanAttributes = {
+      "mcp.persona.id": persona.id,
+      "mcp.analysis_type": analysisType,
+      "gen_ai.system": selectedProvider,
+    };
 
-    // Post-process response if persona has custom processing
-    if (persona.processResponse) {
-      response = persona.processResponse(response, context);
+    // Enhance prompts with persona
+    config.progress?.({ message: `assembling ${persona.name} prompt` });
+    await tracer.withSpan(
+      "persona.prompt",
+      () => {
+        enhancedSystemPrompt = persona.enhanceSystemPrompt(systemPrompt, context);
+        enhancedTask = persona.enhanceUserPrompt(task, context);
+      },
+      { attributes: spanAttributes }
+    );
+
+    // Call AI provider with enhanced prompts; the persona token is only
+    // spent once the request actually goes out
+    rateLimiter.take("persona", persona.id);
+    let sent = false;
+    try {
+      response = await callAIProvider({
+        systemPrompt: enhancedSystemPrompt,
+        task: enhancedTask,
+        code,
+        analysisType,
+        reasoningEffort: effectiveReasoningEffort,
+        provider: selectedProvider,
+        personaId: persona.id,
+        providerNamed: Boolean(config.providerOverride || persona.traits.preferredProvider),
+        signal: config.signal,
+        progress: config.progress,
+        sample: config.sample,
+        onSend: () => {
+          sent = true;
+        },
+      });
+    } catch (error) {
+      if (!sent) {
+        rateLimiter.refund("persona", persona.id);
+      }
+      throw error;
     }
 
-    // Format output according to persona preferences
-    if (persona.formatOutput) {
-      response = persona.formatOutput(response, context);
+    if (persona.processResponse || persona.formatOutput) {
+      response = await tracer.withSpan(
+        "persona.postprocess",
+        () => {
+          let processed = response;
+
+          // Post-process response if persona has custom processing
+          if (persona.processResponse) {
+            processed = persona.processResponse(processed, context);
+          }
+
+          // Format output according to persona preferences
+          if (persona.formatOutput) {
+            processed = persona.formatOutput(processed, context);
+          }
+          return processed;
+        },
+        { attributes: spanAttributes }
+      );
     }
   } else {
     // No persona specified, auto-select provider
@@ -158,6 +229,9 @@ export async function callAIWithPersona(
       analysisType,
       reasoningEffort: effectiveReasoningEffort,
       provider: selectedProvider,
+      signal: config.signal,
+      progress: config.progress,
+      sample: config.sample,
     });
   }
 
@@ -0,0 +1,45 @@
+/**
+ * Plugin discovery configuration
+ */
+
+import fs from "fs";
+import path from "path";
+import { readFlags } from "./cliArgs.js";
+
+export interface PluginConfig {
+  /** Directories scanned for ToolCommand modules */
+  directories: string[];
+  /** Whether to scan project dependencies for marked plugin packages */
+  scanPackages: boolean;
+  /** Project whose package.json dependencies are scanned */
+  projectRoot: string;
+}
+
+/** Conventional per-project plugin directory, used when it exists */
+export const DEFAULT_PLUGIN_DIR = path.join(".coding-mcp", "plugins");
+
+/**
+ * Resolve plugin settings from `--plugin-dir` flags, `CODING_MCP_PLUGIN_DIRS`
+ * (path-delimited), and the project's `.coding-mcp/plugins` directory
+ */
+export function resolvePluginConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): PluginConfig {
+  const directories = [
+    ...readFlags(argv, "plugin-dir"),
+    ...(env.CODING_MCP_PLUGIN_DIRS || "").split(path.delimiter).filter(Boolean),
+  ].map((dir) => path.resolve(cwd, dir));
+
+  const defaultDir = path.join(cwd, DEFAULT_PLUGIN_DIR);
+  if (fs.existsSync(defaultDir) && !directories.includes(defaultDir)) {
+    directories.push(defaultDir);
+  }
+
+  const scanPackages =
+    !argv.includes("--no-plugin-packages") &&
+    env.CODING_MCP_SCAN_PACKAGES !== "false";
+
+  return { directories, scanPackages, projectRoot: cwd };
+}
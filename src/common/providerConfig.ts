@@ -2,28 +2,110 @@
  * Provider configuration and validation utilities
  */
 
+import { ToolError } from "../core/ToolCommand.js";
+
 export const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 export const XAI_API_KEY = process.env.XAI_API_KEY;
 export const AI_PROVIDER = process.env.AI_PROVIDER || "xai";
 
-export type AIProvider = "xai" | "openai";
+/** `sampling` asks the MCP client's own model, so it needs no API key */
+export type AIProvider = "xai" | "openai" | "sampling";
+/** Providers called directly with an API key and a configured model */
+export type APIProvider = Exclude<AIProvider, "sampling">;
 export type ReasoningEffort = "low" | "medium" | "high";
 
-export function validateProvider(provider: AIProvider): void {
-  if (provider === "xai" && !XAI_API_KEY) {
-    throw new Error(
-      "XAI_API_KEY environment variable is required for xAI provider"
+export const DEFAULT_MODELS: Record<APIProvider, string> = {
+  xai: "grok-4",
+  openai: "gpt-5",
+};
+
+const providerSettings: {
+  defaultProvider: AIProvider;
+  models: Record<APIProvider, string>;
+} = {
+  defaultProvider: AI_PROVIDER as AIProvider,
+  models: { ...DEFAULT_MODELS },
+};
+
+/**
+ * Apply the default provider and model names from the server config
+ */
+export function configureProviders(settings: {
+  provider?: AIProvider;
+  models?: Partial<Record<APIProvider, string>>;
+}): void {
+  if (settings.provider) {
+    providerSettings.defaultProvider = settings.provider;
+  }
+  providerSettings.models = { ...providerSettings.models, ...settings.models };
+}
+
+export function getModel(provider: APIProvider): string {
+  return providerSettings.models[provider];
+}
+
+/**
+ * Whether the API key for a provider is set; read at call time
+ */
+function hasApiKey(provider: APIProvider): boolean {
+  return Boolean(provider === "xai" ? process.env.XAI_API_KEY : process.env.OPENAI_API_KEY);
+}
+
+/**
+ * Route a call to the client's model through MCP sampling when sampling is
+ * the configured default, or when no API key is configured at all and the
+ * client supports it. A provider named by the caller or the persona
+ * (`named`) is kept as long as its API key is set.
+ */
+export function resolveProvider(
+  provider: AIProvider,
+  canSample: boolean,
+  named = false
+): AIProvider {
+  if (named && provider !== "sampling" && hasApiKey(provider)) {
+    return provider;
+  }
+  if (providerSettings.defaultProvider === "sampling") {
+    return "sampling";
+  }
+  if (canSample && !hasApiKey("xai") && !hasApiKey("openai")) {
+    return "sampling";
+  }
+  return provider;
+}
+
+export function validateProvider(provider: AIProvider, canSample = false): void {
+  if (provider === "sampling" && !canSample) {
+    throw new ToolError(
+      "The sampling provider requires an MCP client that supports sampling",
+      "PERMISSION_ERROR",
+      undefined,
+      undefined,
+      { remediation: "Use a client with sampling support, or set XAI_API_KEY / OPENAI_API_KEY" }
+    );
+  }
+  if (provider === "xai" && !hasApiKey("xai")) {
+    throw new ToolError(
+      "XAI_API_KEY environment variable is required for xAI provider",
+      "PERMISSION_ERROR",
+      undefined,
+      undefined,
+      { remediation: "Set XAI_API_KEY in the MCP server environment" }
     );
   }
-  if (provider === "openai" && !OPENAI_API_KEY) {
-    throw new Error(
-      "OPENAI_API_KEY environment variable is required for OpenAI provider"
+  if (provider === "openai" && !hasApiKey("openai")) {
+    throw new ToolError(
+      "OPENAI_API_KEY environment variable is required for OpenAI provider",
+      "PERMISSION_ERROR",
+      undefined,
+      undefined,
+      { remediation: "Set OPENAI_API_KEY in the MCP server environment" }
     );
   }
 }
 
 export function getDefaultProvider(): AIProvider {
-  return AI_PROVIDER as AIProvider;
+  return providerSettings.defaultProvider;
 }
 
 /**
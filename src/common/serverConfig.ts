@@ -0,0 +1,390 @@
+/**
+ * Layered server configuration
+ *   - User file (~/.config/coding-mcp/config.json), then project
+ *     `.coding-mcp.json`, then env vars; later layers win
+ *   - Each tool's section is validated against its ToolMetadata.configSchema
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { z, ZodError } from "zod";
+import type { ToolCommand } from "../core/ToolCommand.js";
+import { parseToolRef, satisfiesRange, toolId } from "../core/toolVersions.js";
+
+export const PROJECT_CONFIG_FILE = ".coding-mcp.json";
+
+const RateLimitSchema = z
+  .object({
+    capacity: z.number().int().positive(),
+    refillPerMinute: z.number().positive().optional(),
+  })
+  .strict();
+
+const ServerConfigSchema = z
+  .object({
+    provider: z.enum(["xai", "openai", "sampling"]).optional(),
+    models: z
+      .object({
+        xai: z.string().min(1).optional(),
+        openai: z.string().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    dispatcher: z
+      .object({
+        defaultTimeout: z.number().int().positive().optional(),
+        maxConcurrentExecutions: z.number().int().positive().optional(),
+        maxQueueSize: z.number().int().nonnegative().optional(),
+        queueTimeout: z.number().int().positive().optional(),
+        toolConcurrency: z.record(z.number().int().positive()).optional(),
+        sandboxRoot: z.string().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    tools: z.record(z.record(z.unknown())).optional(),
+    /** Allowlist: when set, every other tool starts disabled */
+    enabledTools: z.array(z.string().min(1)).optional(),
+    /** Denylist: these tools start disabled */
+    disabledTools: z.array(z.string().min(1)).optional(),
+    /** Token buckets by tool, persona and provider name ("*" for any other) */
+    rateLimits: z
+      .object({
+        tools: z.record(RateLimitSchema).optional(),
+        personas: z.record(RateLimitSchema).optional(),
+        providers: z.record(RateLimitSchema).optional(),
+      })
+      .strict()
+      .optional(),
+    /** Recent results readable as result://<requestId> resources */
+    results: z
+      .object({
+        maxResults: z.number().int().positive().optional(),
+        maxAgeMs: z.number().int().positive().optional(),
+        /** Longer responses return a preview and a resource link (0 disables) */
+        linkThreshold: z.number().int().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+    /** Reload changed tool and persona modules without restarting */
+    watch: z.boolean().optional(),
+    /** How long shutdown waits for in-flight executions, in milliseconds */
+    shutdownGracePeriod: z.number().int().nonnegative().optional(),
+    /** Append tool, registry and system events to a rotating JSONL file */
+    eventLog: z
+      .object({
+        path: z.string().min(1),
+        maxBytes: z.number().int().positive().optional(),
+        maxFiles: z.number().int().nonnegative().optional(),
+        redactKeys: z.array(z.string()).optional(),
+        maxValueLength: z.number().int().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+    /** Export a span tree per tool call over OTLP/HTTP or to a JSONL file */
+    tracing: z
+      .discriminatedUnion("exporter", [
+        z
+          .object({
+            exporter: z.literal("otlp"),
+            endpoint: z.string().url().optional(),
+            headers: z.record(z.string()).optional(),
+            /** Give up on a collector that hasn't answered after this many milliseconds */
+            timeoutMs: z.number().int().positive().optional(),
+          })
+          .strict(),
+        z
+          .object({
+            exporter: z.literal("file"),
+            path: z.string().min(1),
+          })
+          .strict(),
+      ])
+      .optional(),
+  })
+  .strict();
+
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+
+export interface LoadedServerConfig {
+  config: ServerConfig;
+  /** Config layers that contributed, lowest precedence first */
+  sources: string[];
+}
+
+/**
+ * Raised at startup when a config layer or tool section is invalid
+ */
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Default user-level config path, honoring XDG_CONFIG_HOME
+ */
+export function getUserConfigPath(
+  env: NodeJS.ProcessEnv = process.env,
+  homeDir: string = os.homedir()
+): string {
+  const configHome = env.XDG_CONFIG_HOME || path.join(homeDir, ".config");
+  return path.join(configHome, "coding-mcp", "config.json");
+}
+
+function formatZodIssues(source: string, error: ZodError): string[] {
+  return error.errors.map(
+    (issue) =>
+      `${source}: ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${
+        issue.message
+      }`
+  );
+}
+
+function readConfigFile(filePath: string, issues: string[]): ServerConfig | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    issues.push(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+
+  const result = ServerConfigSchema.safeParse(raw);
+  if (!result.success) {
+    issues.push(...formatZodIssues(filePath, result.error));
+    return undefined;
+  }
+  return result.data;
+}
+
+/**
+ * Env vars that override file settings
+ */
+function readEnvConfig(env: NodeJS.ProcessEnv, issues: string[]): ServerConfig {
+  const config: ServerConfig = {};
+
+  if (env.AI_PROVIDER) {
+    if (
+      env.AI_PROVIDER !== "xai" &&
+      env.AI_PROVIDER !== "openai" &&
+      env.AI_PROVIDER !== "sampling"
+    ) {
+      issues.push(
+        `AI_PROVIDER: expected 'xai', 'openai' or 'sampling', received '${env.AI_PROVIDER}'`
+      );
+    } else {
+      config.provider = env.AI_PROVIDER;
+    }
+  }
+
+  if (env.XAI_MODEL || env.OPENAI_MODEL) {
+    config.models = {
+      ...(env.XAI_MODEL && { xai: env.XAI_MODEL }),
+      ...(env.OPENAI_MODEL && { openai: env.OPENAI_MODEL }),
+    };
+  }
+
+  if (env.CODING_MCP_TIMEOUT) {
+    const timeout = Number(env.CODING_MCP_TIMEOUT);
+    if (!Number.isInteger(timeout) || timeout <= 0) {
+      issues.push(`CODING_MCP_TIMEOUT: expected a positive number of milliseconds, received '${env.CODING_MCP_TIMEOUT}'`);
+    } else {
+      config.dispatcher = { defaultTimeout: timeout };
+    }
+  }
+
+  if (env.CODING_MCP_SHUTDOWN_GRACE_PERIOD) {
+    const gracePeriod = Number(env.CODING_MCP_SHUTDOWN_GRACE_PERIOD);
+    if (!Number.isInteger(gracePeriod) || gracePeriod < 0) {
+      issues.push(`CODING_MCP_SHUTDOWN_GRACE_PERIOD: expected a non-negative number of milliseconds, received '${env.CODING_MCP_SHUTDOWN_GRACE_PERIOD}'`);
+    } else {
+      config.shutdownGracePeriod = gracePeriod;
+    }
+  }
+
+  if (env.CODING_MCP_EVENT_LOG) {
+    config.eventLog = { path: env.CODING_MCP_EVENT_LOG };
+  }
+
+  const otlpEndpoint =
+    env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ??
+    (env.OTEL_EXPORTER_OTLP_ENDPOINT &&
+      `${env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, "")}/v1/traces`);
+  if (env.CODING_MCP_TRACE_FILE) {
+    config.tracing = { exporter: "file", path: env.CODING_MCP_TRACE_FILE };
+  } else if (otlpEndpoint) {
+    config.tracing = { exporter: "otlp", endpoint: otlpEndpoint };
+    const otlpTimeout =
+      env.OTEL_EXPORTER_OTLP_TRACES_TIMEOUT ?? env.OTEL_EXPORTER_OTLP_TIMEOUT;
+    if (otlpTimeout !== undefined) {
+      const timeoutMs = Number(otlpTimeout);
+      if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+        issues.push(`OTEL_EXPORTER_OTLP_TIMEOUT: expected a positive number of milliseconds, received '${otlpTimeout}'`);
+      } else {
+        config.tracing.timeoutMs = timeoutMs;
+      }
+    }
+  }
+
+  for (const [key, variable] of [
+    ["enabledTools", "CODING_MCP_ENABLED_TOOLS"],
+    ["disabledTools", "CODING_MCP_DISABLED_TOOLS"],
+  ] as const) {
+    const names = env[variable]?.split(",").map((name) => name.trim()).filter(Boolean);
+    if (names) {
+      config[key] = names;
+    }
+  }
+
+  if (env.CODING_MCP_WATCH) {
+    config.watch = env.CODING_MCP_WATCH === "true";
+  }
+
+  return config;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge objects; arrays and scalars from the higher layer replace
+ */
+function mergeLayers<T extends Record<string, unknown>>(base: T, override: T): T {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key])
+        ? mergeLayers(merged[key] as Record<string, unknown>, value)
+        : value;
+  }
+  return merged as T;
+}
+
+/**
+ * Load and merge user, project and env config layers
+ */
+export function loadServerConfig(
+  options: {
+    env?: NodeJS.ProcessEnv;
+    cwd?: string;
+    userConfigPath?: string;
+  } = {}
+): LoadedServerConfig {
+  const env = options.env ?? process.env;
+  const cwd = options.cwd ?? process.cwd();
+  const userConfigPath = options.userConfigPath ?? getUserConfigPath(env);
+  const projectConfigPath = path.join(cwd, PROJECT_CONFIG_FILE);
+
+  const issues: string[] = [];
+  const sources: string[] = [];
+  let config: ServerConfig = {};
+
+  for (const filePath of [userConfigPath, projectConfigPath]) {
+    const layer = readConfigFile(filePath, issues);
+    if (layer) {
+      config = mergeLayers(config, layer);
+      sources.push(filePath);
+    }
+  }
+
+  const envLayer = readEnvConfig(env, issues);
+  if (Object.keys(envLayer).length > 0) {
+    config = mergeLayers(config, envLayer);
+    sources.push("env");
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return { config, sources };
+}
+
+/**
+ * Validate each tool's config section against its configSchema.
+ * Tools with a schema always get a parsed config so schema defaults apply.
+ */
+export function resolveToolConfigs(
+  tools: ToolCommand[],
+  sections: ServerConfig["tools"] = {}
+): Record<string, Record<string, any>> {
+  const issues: string[] = [];
+  const resolved: Record<string, Record<string, any>> = {};
+  const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+  for (const name of Object.keys(sections)) {
+    const tool = toolsByName.get(name);
+    if (!tool) {
+      issues.push(`tools.${name}: no tool named '${name}' is registered`);
+    } else if (!tool.metadata?.configSchema) {
+      issues.push(`tools.${name}: tool '${name}' does not accept configuration`);
+    }
+  }
+
+  for (const tool of tools) {
+    const schema = tool.metadata?.configSchema;
+    if (!schema) continue;
+
+    const result = schema.safeParse(sections[tool.name] ?? {});
+    if (result.success) {
+      resolved[tool.name] = result.data;
+    } else {
+      issues.push(...formatZodIssues(`tools.${tool.name}`, result.error));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return resolved;
+}
+
+/**
+ * Diagnostic and admin tools an enabledTools allowlist leaves on, so the
+ * project can still inspect and change its tools at runtime. Listing them
+ * in disabledTools still turns them off.
+ */
+export const ALLOWLIST_EXEMPT_TOOLS = ["server-status", "tool-admin"];
+
+/**
+ * Registry ids of the tools the enabledTools allowlist and disabledTools
+ * denylist turn off. Entries are tool names or `name@range`.
+ */
+export function resolveDisabledTools(
+  tools: ToolCommand[],
+  filters: Pick<ServerConfig, "enabledTools" | "disabledTools">
+): string[] {
+  const issues: string[] = [];
+  const matches = (entry: string, tool: ToolCommand) => {
+    const { name, range } = parseToolRef(entry);
+    return tool.name === name && (range === undefined || satisfiesRange(tool.version, range));
+  };
+
+  for (const key of ["enabledTools", "disabledTools"] as const) {
+    for (const entry of filters[key] ?? []) {
+      if (!tools.some((tool) => matches(entry, tool))) {
+        issues.push(`${key}: no tool matching '${entry}' is registered`);
+      }
+    }
+  }
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  const { enabledTools, disabledTools = [] } = filters;
+  return tools
+    .filter(
+      (tool) =>
+        (enabledTools !== undefined &&
+          !ALLOWLIST_EXEMPT_TOOLS.includes(tool.name) &&
+          !enabledTools.some((entry) => matches(entry, tool))) ||
+        disabledTools.some((entry) => matches(entry, tool))
+    )
+    .map(toolId);
+}
@@ -37,6 +37,13 @@ export function formatOpenAITokenInfo(
   return `\n\n---\n*${baseInfo}*`;
 }
 
+export function formatSamplingTokenInfo(
+  model: string,
+  reasoningEffort: ReasoningEffort
+): string {
+  return `\n\n---\n*Provider: MCP sampling (${model}) | Reasoning effort: ${reasoningEffort}*`;
+}
+
 export function formatTokenInfo(
   provider: AIProvider,
   usage: TokenUsage | undefined,
@@ -0,0 +1,66 @@
+/**
+ * Transport selection for the MCP server (stdio or HTTP)
+ */
+
+import { readFlag, readFlags } from "./cliArgs.js";
+
+export type TransportKind = "stdio" | "http";
+
+export interface TransportConfig {
+  transport: TransportKind;
+  host: string;
+  port: number;
+  /** Extra Host header values to accept, e.g. the dev box's LAN name */
+  allowedHosts: string[];
+  /** Browser origins allowed to call the server */
+  allowedOrigins: string[];
+}
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3333;
+
+/**
+ * Resolve transport settings from CLI flags, then env vars, then defaults.
+ * Stdio stays the default so existing IDE configs keep working.
+ */
+export function resolveTransportConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportConfig {
+  const transport =
+    (argv.includes("--http") ? "http" : undefined) ??
+    readFlag(argv, "transport") ??
+    env.MCP_TRANSPORT ??
+    "stdio";
+
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(
+      `Unsupported transport '${transport}'. Use 'stdio' or 'http'.`
+    );
+  }
+
+  const host = readFlag(argv, "host") ?? env.MCP_HTTP_HOST ?? DEFAULT_HTTP_HOST;
+  const rawPort = readFlag(argv, "port") ?? env.MCP_HTTP_PORT;
+  const port = rawPort === undefined ? DEFAULT_HTTP_PORT : Number(rawPort);
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port '${rawPort}'`);
+  }
+
+  return {
+    transport,
+    host,
+    port,
+    allowedHosts: readList(argv, "allowed-host", env.MCP_HTTP_ALLOWED_HOSTS),
+    allowedOrigins: readList(argv, "allowed-origin", env.MCP_HTTP_ALLOWED_ORIGINS),
+  };
+}
+
+/**
+ * Values from a repeatable flag, else from a comma-separated env var
+ */
+function readList(argv: string[], flag: string, envValue: string | undefined): string[] {
+  const values = readFlags(argv, flag);
+  const raw = values.length > 0 ? values : (envValue ?? "").split(",");
+  return raw.map((value) => value.trim()).filter(Boolean);
+}
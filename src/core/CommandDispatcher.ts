@@ -12,11 +12,24 @@ import {
   ToolValidationError,
   ToolExecutionError,
   ToolTimeoutError,
+  ToolCancelledError,
   ToolError,
-  MCPToolResponse
+  MCPToolResponse,
+  MCPToolErrorContent,
+  ProgressReporter,
+  ProgressUpdate,
+  Sampler
 } from './ToolCommand.js';
 import { ToolRegistry } from './ToolRegistry.js';
+import { ExecutionQueue, type ExecutionQueueStats, type ReleaseSlot } from './ExecutionQueue.js';
+import type { ToolExecutionMetrics } from './ExecutionMetrics.js';
+import { runMiddleware, type ToolMiddleware } from './middleware.js';
+import { SandboxRunner } from './SandboxRunner.js';
+import { rateLimiter as defaultRateLimiter, type RateLimiter, type RateLimitBucketStats } from './RateLimiter.js';
+import { ResultStore } from './ResultStore.js';
+import { toolId } from './toolVersions.js';
 import { eventBus, type EventBus } from '../infra/eventBus.js';
+import { tracer as defaultTracer, SpanKind, type Span, type Tracer } from '../infra/tracing.js';
 import { ZodError } from 'zod';
 
 export interface DispatcherConfig {
@@ -26,14 +39,64 @@ export interface DispatcherConfig {
   enableTracing?: boolean;
   /** Maximum concurrent executions */
   maxConcurrentExecutions?: number;
+  /** Maximum requests waiting for a free slot before new ones are rejected */
+  maxQueueSize?: number;
+  /** Maximum time a request may wait for a slot, in milliseconds */
+  queueTimeout?: number;
+  /** Per-tool concurrency limits; override ToolMetadata.constraints.maxConcurrency */
+  toolConcurrency?: Record<string, number>;
+  /** Validated per-tool configuration, passed to tools as CommandContext.config */
+  toolConfig?: Record<string, Record<string, any>>;
+  /** Middleware wrapping every tool execution, outermost first */
+  middleware?: ToolMiddleware[];
+  /** Filesystem root for tools with constraints.requiresSandbox (default: cwd) */
+  sandboxRoot?: string;
+  /** Records a span per call; the global tracer by default */
+  tracer?: Tracer;
+  /** Per-tool token buckets; the shared limiter by default */
+  rateLimiter?: RateLimiter;
+  /** Keeps successful results readable as result://<requestId> */
+  resultStore?: ResultStore;
+  /** Longer responses are cut to a preview plus a resource link, in characters (0 disables; default 20000) */
+  resultLinkThreshold?: number;
+}
+
+// Characters of a linked result returned inline
+const RESULT_PREVIEW_LENGTH = 2000;
+
+export interface DispatchOptions {
+  /** Aborted when the client cancels the request (e.g. MCP notifications/cancelled) */
+  signal?: AbortSignal;
+  /** Queue priority; higher-priority requests get free slots first (default 0) */
+  priority?: number;
+  /** Receives progress updates; set when the client supplied a progress token */
+  onProgress?: (update: ProgressUpdate & { progress: number }) => void;
+  /** Sends completions back to the client; set when it supports MCP sampling */
+  sample?: Sampler;
+  /** Calling session; stored results are only readable by it */
+  sessionId?: string;
+}
+
+export interface DispatcherShutdownResult {
+  /** Whether every in-flight request finished within the grace period */
+  drained: boolean;
+  /** Requests still running or queued when the grace period ran out */
+  aborted: number;
 }
 
 export class CommandDispatcher {
   private readonly registry: ToolRegistry;
   private readonly eventBus: EventBus;
   private readonly config: Required<DispatcherConfig>;
+  private readonly queue: ExecutionQueue;
+  private readonly sandbox: SandboxRunner;
   private activeExecutions = new Map<string, { toolName: string; startTime: number }>();
   private executionCounter = 0;
+  // Queued plus running dispatches, tracked so shutdown can drain them
+  private inFlight = 0;
+  private idleWaiters: Array<() => void> = [];
+  private shuttingDown = false;
+  private readonly shutdownController = new AbortController();
 
   constructor(
     registry: ToolRegistry,
@@ -45,34 +108,102 @@ export class CommandDispatcher {
     this.config = {
       defaultTimeout: config.defaultTimeout || 30000, // 30 seconds
       enableTracing: config.enableTracing ?? true,
-      maxConcurrentExecutions: config.maxConcurrentExecutions || 10
+      maxConcurrentExecutions: config.maxConcurrentExecutions || 10,
+      maxQueueSize: config.maxQueueSize ?? 50,
+      queueTimeout: config.queueTimeout || 60000, // 1 minute
+      toolConcurrency: config.toolConcurrency || {},
+      toolConfig: config.toolConfig || {},
+      middleware: [...(config.middleware || [])],
+      sandboxRoot: config.sandboxRoot || process.cwd(),
+      tracer: config.tracer || defaultTracer,
+      rateLimiter: config.rateLimiter || defaultRateLimiter,
+      resultStore: config.resultStore || new ResultStore(),
+      resultLinkThreshold: config.resultLinkThreshold ?? 20000
     };
+    this.queue = new ExecutionQueue({
+      maxConcurrent: this.config.maxConcurrentExecutions,
+      maxQueueSize: this.config.maxQueueSize,
+      queueTimeout: this.config.queueTimeout
+    });
+    this.sandbox = new SandboxRunner({ allowedRoot: this.config.sandboxRoot });
   }
 
   /**
-   * Dispatch an MCP tool request to the appropriate command
+   * Dispatch an MCP tool request to the appropriate command. The name may
+   * pin a version (`name@1`); a bare name runs the newest stable version.
    */
-  async dispatch(request: CallToolRequest): Promise<MCPToolResponse> {
-    const { name: toolName, arguments: args } = request.params;
+  dispatch(
+    request: CallToolRequest,
+    options: DispatchOptions = {}
+  ): Promise<MCPToolResponse> {
+    const toolName = request.params.name;
+    // Root of the call's span tree; provider calls made by the tool nest under it
+    return this.config.tracer.withSpan(
+      `tools/call ${toolName}`,
+      (span) => this.dispatchInSpan(request, options, span),
+      { kind: SpanKind.SERVER, attributes: { 'mcp.tool.name': toolName } }
+    );
+  }
+
+  private async dispatchInSpan(
+    request: CallToolRequest,
+    options: DispatchOptions,
+    span: Span
+  ): Promise<MCPToolResponse> {
+    const { name: requestedName, arguments: args } = request.params;
+    // Events, metrics and limits use the tool's own name once it resolves
+    let toolName = requestedName;
     const requestId = this.generateRequestId();
-    const startTime = Date.now();
+    let startTime = Date.now();
+    let release: ReleaseSlot | undefined;
+    let rateLimited = false;
+    this.inFlight++;
+    span.setAttribute('mcp.request.id', requestId);
+
+    // Shutdown aborts everything still running after the grace period
+    const signal = options.signal
+      ? AbortSignal.any([options.signal, this.shutdownController.signal])
+      : this.shutdownController.signal;
+    options = { ...options, signal };
 
     try {
-      // Check concurrent execution limit
-      if (this.activeExecutions.size >= this.config.maxConcurrentExecutions) {
-        throw new ToolError(
-          `Maximum concurrent executions (${this.config.maxConcurrentExecutions}) reached`,
-          'RESOURCE_ERROR',
-          toolName
-        );
+      if (this.shuttingDown) {
+        throw new ToolError('Server is shutting down and not accepting new requests', 'RESOURCE_ERROR', toolName);
       }
 
       // Get the tool command
-      const tool = this.registry.get(toolName);
+      const tool = this.registry.get(requestedName);
       if (!tool) {
-        throw new ToolNotFoundError(toolName);
+        throw new ToolNotFoundError(requestedName);
+      }
+      toolName = tool.name;
+      span.setAttribute('mcp.tool.version', tool.version);
+
+      // Older versions keep working but say what replaces them
+      const deprecation = this.registry.getDeprecation(tool);
+      if (deprecation) {
+        this.eventBus.emit('tool:deprecated', {
+          name: toolName,
+          version: tool.version,
+          requestId,
+          message: deprecation
+        });
       }
 
+      // Over its rate limit the call fails fast rather than queuing
+      this.config.rateLimiter.take('tool', toolName, toolName);
+      rateLimited = true;
+
+      // Wait for a free execution slot (bounded queue with per-tool limits)
+      release = await this.queue.acquire(toolName, {
+        toolLimit: this.config.toolConcurrency[toolName] ?? tool.metadata?.constraints?.maxConcurrency,
+        priority: options.priority,
+        signal: options.signal
+      });
+      // Execution time and timeout start once the request leaves the queue
+      span.setAttribute('mcp.queue.wait_ms', Date.now() - startTime);
+      startTime = Date.now();
+
       // Track active execution
       this.activeExecutions.set(requestId, { toolName, startTime });
 
@@ -84,7 +215,18 @@ export class CommandDispatcher {
       });
 
       // Execute the tool with timeout
-      const result = await this.executeWithTimeout(tool, args, requestId, startTime);
+      const result = await this.executeWithTimeout(
+        tool,
+        args,
+        requestId,
+        startTime,
+        options
+      );
+
+      // Failures are reported once, by the catch block below
+      if (!result.success) {
+        throw result.error || new ToolExecutionError(toolName, 'Unknown execution error');
+      }
 
       // Clean up active execution tracking
       this.activeExecutions.delete(requestId);
@@ -94,16 +236,16 @@ export class CommandDispatcher {
       this.eventBus.emit('tool:execute:end', {
         name: toolName,
         requestId,
-        success: result.success,
+        success: true,
         executionTime
       });
 
       // Return MCP-compatible response
-      if (result.success && result.result) {
-        return this.formatMCPResponse(result.result);
-      } else {
-        throw result.error || new ToolExecutionError(toolName, 'Unknown execution error');
+      const response = this.storeResult(this.formatMCPResponse(result.result), tool, requestId, options.sessionId);
+      if (deprecation) {
+        response.content = [...response.content, { type: 'text', text: `⚠️ Deprecated: ${deprecation}` }];
       }
+      return response;
 
     } catch (error) {
       // Clean up active execution tracking
@@ -111,6 +253,13 @@ export class CommandDispatcher {
 
       // Convert to ToolError if not already
       const toolError = this.normalizeError(error, toolName);
+      span.recordError(toolError);
+
+      // Calls the queue turned away or with invalid arguments never ran,
+      // so they don't count against the tool's rate limit
+      if (rateLimited && (!release || toolError.code === 'VALIDATION_ERROR')) {
+        this.config.rateLimiter.refund('tool', toolName);
+      }
 
       // Emit error event
       this.eventBus.emit('tool:error', {
@@ -129,10 +278,68 @@ export class CommandDispatcher {
       });
 
       // Return error response in MCP format
-      return this.formatErrorResponse(toolError);
+      return this.formatErrorResponse(toolError, toolName, requestId);
+    } finally {
+      release?.();
+      this.inFlight--;
+      if (this.inFlight === 0) {
+        this.idleWaiters.splice(0).forEach((resolve) => resolve());
+      }
     }
   }
 
+  /**
+   * Add middleware to the end of the chain (innermost so far)
+   */
+  use(middleware: ToolMiddleware): this {
+    this.config.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Stop accepting requests, wait up to gracePeriodMs for in-flight ones,
+   * then abort whatever is left so tools release browsers and provider calls
+   */
+  async shutdown(gracePeriodMs: number): Promise<DispatcherShutdownResult> {
+    this.shuttingDown = true;
+
+    const drained = await this.waitForIdle(gracePeriodMs);
+    if (drained) {
+      return { drained, aborted: 0 };
+    }
+
+    const aborted = this.inFlight;
+    this.shutdownController.abort();
+    // Let aborted requests send their cancellation responses
+    await this.waitForIdle(1000);
+    return { drained, aborted };
+  }
+
+  /**
+   * Whether shutdown has started
+   */
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  private waitForIdle(timeoutMs: number): Promise<boolean> {
+    if (this.inFlight === 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise((resolve) => {
+      const onIdle = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.idleWaiters = this.idleWaiters.filter((waiter) => waiter !== onIdle);
+        resolve(false);
+      }, timeoutMs);
+      this.idleWaiters.push(onIdle);
+    });
+  }
+
   /**
    * Execute a tool with timeout and validation
    */
@@ -140,14 +347,22 @@ export class CommandDispatcher {
     tool: ToolCommand<TArgs, TResult>,
     args: unknown,
     requestId: string,
-    startTime: number
+    startTime: number,
+    options: DispatchOptions
   ): Promise<ToolExecutionResult<TResult>> {
+    // Aborted on client cancellation or timeout so providers stop work too
+    const controller = new AbortController();
+
     try {
       // Validate arguments using tool's schema
       let validatedArgs: TArgs;
+      const validationSpan = this.config.tracer.startSpan('validate', {
+        attributes: { 'mcp.tool.name': tool.name }
+      });
       try {
         validatedArgs = tool.schema.parse(args);
       } catch (error) {
+        validationSpan.recordError(error);
         if (error instanceof ZodError) {
           throw new ToolValidationError(
             tool.name,
@@ -156,6 +371,8 @@ export class CommandDispatcher {
           );
         }
         throw new ToolValidationError(tool.name, 'Failed to validate arguments', error as Error);
+      } finally {
+        validationSpan.end();
       }
 
       // Create execution context
@@ -163,17 +380,26 @@ export class CommandDispatcher {
         eventBus: this.eventBus,
         requestId,
         startTime,
-        config: tool.metadata?.constraints
+        config: this.config.toolConfig[tool.name],
+        signal: controller.signal,
+        progress: this.createProgressReporter(tool.name, requestId, controller.signal, options.onProgress),
+        sample: options.sample
       };
 
       // Determine timeout (tool-specific or default)
       const timeout = tool.metadata?.constraints?.maxExecutionTime || this.config.defaultTimeout;
 
-      // Execute with timeout
+      // Execute through the middleware chain with timeout and cancellation
       const result = await this.withTimeout(
-        tool.execute(validatedArgs, context),
+        runMiddleware(
+          this.config.middleware,
+          { tool, args: validatedArgs, context },
+          (finalArgs) => this.runTool(tool, finalArgs as TArgs, context)
+        ) as Promise<TResult>,
         timeout,
-        tool.name
+        tool.name,
+        controller,
+        options.signal
       );
 
       return {
@@ -202,20 +428,102 @@ export class CommandDispatcher {
   }
 
   /**
-   * Execute a promise with timeout
+   * Run the tool in-process, or in a worker when its constraints require a sandbox
+   */
+  private runTool<TArgs, TResult>(
+    tool: ToolCommand<TArgs, TResult>,
+    args: TArgs,
+    context: CommandContext
+  ): Promise<TResult> {
+    if (!tool.metadata?.constraints?.requiresSandbox) {
+      return tool.execute(args, context);
+    }
+    const source = this.registry.getRegistration(toolId(tool))?.source;
+    return this.sandbox.run(tool as ToolCommand, source, args, context) as Promise<TResult>;
+  }
+
+  /**
+   * Execute a promise with timeout and client cancellation.
+   * Either one aborts the controller so the tool's in-flight work stops.
    */
   private async withTimeout<T>(
     promise: Promise<T>,
     timeoutMs: number,
-    toolName: string
+    toolName: string,
+    controller: AbortController,
+    clientSignal?: AbortSignal
   ): Promise<T> {
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(new ToolTimeoutError(toolName, timeoutMs));
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onClientAbort: (() => void) | undefined;
+
+    const abortPromise = new Promise<never>((_, reject) => {
+      const abortWith = (error: ToolError) => {
+        controller.abort(error);
+        reject(error);
+      };
+
+      timer = setTimeout(() => {
+        abortWith(new ToolTimeoutError(toolName, timeoutMs));
       }, timeoutMs);
+
+      if (clientSignal) {
+        onClientAbort = () => abortWith(
+          this.shutdownController.signal.aborted
+            ? new ToolCancelledError(toolName, 'because the server is shutting down')
+            : new ToolCancelledError(toolName)
+        );
+        if (clientSignal.aborted) {
+          onClientAbort();
+        } else {
+          clientSignal.addEventListener('abort', onClientAbort, { once: true });
+        }
+      }
     });
 
-    return Promise.race([promise, timeoutPromise]);
+    try {
+      return await Promise.race([promise, abortPromise]);
+    } finally {
+      // Long tool timeouts must not keep dangling timers alive
+      clearTimeout(timer);
+      if (clientSignal && onClientAbort) {
+        clientSignal.removeEventListener('abort', onClientAbort);
+      }
+    }
+  }
+
+  /**
+   * Create a progress reporter that keeps progress monotonic (as MCP requires),
+   * forwards updates to the client and mirrors them on the event bus
+   */
+  private createProgressReporter(
+    toolName: string,
+    requestId: string,
+    signal: AbortSignal,
+    onProgress?: DispatchOptions['onProgress']
+  ): ProgressReporter {
+    // Auto-numbered updates start at 0
+    let lastProgress = -1;
+
+    return (update) => {
+      // Late reports from work that is being torn down are dropped
+      if (signal.aborted) return;
+
+      const progress = Math.max(update.progress ?? lastProgress + 1, lastProgress + 1);
+      lastProgress = progress;
+      const normalized = { ...update, progress };
+
+      this.eventBus.emit('tool:progress', {
+        name: toolName,
+        requestId,
+        ...normalized
+      });
+
+      try {
+        onProgress?.(normalized);
+      } catch (error) {
+        console.error(`Progress reporting failed for tool '${toolName}':`, error);
+      }
+    };
   }
 
   /**
@@ -227,12 +535,40 @@ export class CommandDispatcher {
     }
 
     if (error instanceof Error) {
-      return new ToolExecutionError(toolName, error.message, error);
+      return this.classifyProviderError(error, toolName) ?? new ToolExecutionError(toolName, error.message, error);
     }
 
     return new ToolExecutionError(toolName, String(error));
   }
 
+  /**
+   * Map provider HTTP failures (OpenAI `status`, AI SDK `statusCode`) to error codes
+   */
+  private classifyProviderError(error: Error, toolName: string): ToolError | undefined {
+    const status = (error as any).status ?? (error as any).statusCode;
+    if (typeof status !== 'number') {
+      return undefined;
+    }
+
+    if (status === 401 || status === 403) {
+      return new ToolError(error.message, 'PERMISSION_ERROR', toolName, error, {
+        remediation: 'The AI provider rejected the API key; check XAI_API_KEY / OPENAI_API_KEY'
+      });
+    }
+    if (status === 429) {
+      return new ToolError(error.message, 'RESOURCE_ERROR', toolName, error, {
+        remediation: 'The AI provider rate limit was reached; retry later'
+      });
+    }
+    if (status >= 500) {
+      return new ToolExecutionError(toolName, error.message, error, {
+        retryable: true,
+        remediation: 'The AI provider is unavailable; retry later'
+      });
+    }
+    return undefined;
+  }
+
   /**
    * Format successful result as MCP response
    */
@@ -254,16 +590,88 @@ export class CommandDispatcher {
   /**
    * Format error as MCP response
    */
-  private formatErrorResponse(error: ToolError): MCPToolResponse {
-    const errorMessage = this.config.enableTracing 
-      ? `${error.message}\n\nError Code: ${error.code}\nTool: ${error.toolName || 'unknown'}`
-      : error.message;
+  private formatErrorResponse(error: ToolError, toolName: string, requestId: string): MCPToolResponse {
+    const structured: MCPToolErrorContent = {
+      code: error.code,
+      message: error.message,
+      tool: error.toolName || toolName,
+      requestId,
+      retryable: error.retryable,
+      remediation: error.remediation,
+      retryAfterMs: error.retryAfterMs
+    };
+
+    let errorMessage = error.message;
+    if (this.config.enableTracing) {
+      errorMessage += `\n\nError Code: ${structured.code}\nTool: ${structured.tool}\nRequest: ${requestId}\nRetryable: ${structured.retryable ? 'yes' : 'no'}`;
+      if (structured.retryAfterMs !== undefined) {
+        errorMessage += `\nRetry After: ${Math.ceil(structured.retryAfterMs / 1000)}s`;
+      }
+    }
+    if (structured.remediation) {
+      errorMessage += `\nHint: ${structured.remediation}`;
+    }
 
     return {
       content: [{
         type: "text",
         text: `Error: ${errorMessage}`
-      }]
+      }],
+      isError: true,
+      structuredContent: { error: structured }
+    };
+  }
+
+  /**
+   * Keep a successful response for result://<requestId>; text longer than
+   * resultLinkThreshold comes back as a preview plus a link to the rest
+   */
+  private storeResult(
+    response: MCPToolResponse,
+    tool: ToolCommand,
+    requestId: string,
+    sessionId?: string
+  ): MCPToolResponse {
+    const texts = response.content.flatMap((block) => (block.type === 'text' ? [block.text] : []));
+    // Tools that already return links manage their own output
+    if (response.isError || texts.length !== response.content.length) {
+      return response;
+    }
+
+    const text = texts.join('\n\n');
+    const uri = `result://${requestId}`;
+    this.config.resultStore.put({
+      requestId,
+      tool: tool.name,
+      version: tool.version,
+      text,
+      createdAt: Date.now(),
+      sessionId
+    });
+
+    const threshold = this.config.resultLinkThreshold;
+    if (threshold <= 0 || text.length <= threshold) {
+      return response;
+    }
+
+    const previewLength = Math.min(RESULT_PREVIEW_LENGTH, threshold);
+    const lineEnd = text.lastIndexOf('\n', previewLength);
+    const preview = text.slice(0, lineEnd > 0 ? lineEnd : previewLength);
+    return {
+      ...response,
+      content: [
+        {
+          type: 'text',
+          text: `${preview}\n\n… ${text.length - preview.length} more characters; read ${uri} for the full result`
+        },
+        {
+          type: 'resource_link',
+          uri,
+          name: `${tool.name} result ${requestId}`,
+          mimeType: 'text/markdown',
+          size: Buffer.byteLength(text)
+        }
+      ]
     };
   }
 
@@ -301,14 +709,33 @@ export class CommandDispatcher {
     totalExecutions: number;
     averageExecutionTime: number;
     errorRate: number;
+    latency: { p50: number; p95: number; p99: number };
+    tools: Record<string, ToolExecutionMetrics>;
+    /** AI provider calls, by the persona they were made for */
+    personas: Record<string, ToolExecutionMetrics>;
+    /** AI provider calls, by provider */
+    providers: Record<string, ToolExecutionMetrics>;
+    queue: ExecutionQueueStats;
+    rateLimits: RateLimitBucketStats[];
   } {
-    // This would need execution history tracking for accurate stats
-    // For now, return basic info
+    const metrics = this.registry.getExecutionMetrics();
+    const overall = metrics.getOverallMetrics();
+
     return {
       activeExecutions: this.activeExecutions.size,
       totalExecutions: this.executionCounter,
-      averageExecutionTime: 0, // Would need history tracking
-      errorRate: 0 // Would need error tracking
+      averageExecutionTime: overall.averageExecutionTime,
+      errorRate: overall.errorRate,
+      latency: {
+        p50: overall.p50ExecutionTime,
+        p95: overall.p95ExecutionTime,
+        p99: overall.p99ExecutionTime
+      },
+      tools: metrics.getAllToolMetrics(),
+      personas: metrics.getPersonaMetrics(),
+      providers: metrics.getProviderMetrics(),
+      queue: this.queue.getStats(),
+      rateLimits: this.config.rateLimiter.getStats()
     };
   }
 
@@ -326,7 +753,8 @@ export class CommandDispatcher {
 export function createDispatchHandler(
   registry: ToolRegistry,
   config?: DispatcherConfig
-): (request: CallToolRequest) => Promise<MCPToolResponse> {
+): (request: CallToolRequest, options?: DispatchOptions) => Promise<MCPToolResponse> {
   const dispatcher = new CommandDispatcher(registry, eventBus, config);
-  return (request: CallToolRequest) => dispatcher.dispatch(request);
+  return (request: CallToolRequest, options?: DispatchOptions) =>
+    dispatcher.dispatch(request, options);
 }
@@ -0,0 +1,232 @@
+/**
+ * Execution Metrics - Rolling per-tool execution history built from
+ * tool:execute:end and tool:error events, plus per-persona and per-provider
+ * history of AI provider calls built from provider:call events
+ */
+
+import type { ToolErrorCode } from './ToolCommand.js';
+import { ToolError } from './ToolCommand.js';
+import type { EventBus } from '../infra/eventBus.js';
+
+export interface ExecutionMetricsConfig {
+  /** Executions kept per tool for latency percentiles and error rate */
+  windowSize?: number;
+}
+
+/**
+ * Metrics for a single tool, persona or provider. Counts are lifetime
+ * totals; error rate and latency figures cover the rolling window of
+ * recent executions.
+ */
+export interface ToolExecutionMetrics {
+  executionCount: number;
+  successCount: number;
+  failureCount: number;
+  errorsByCode: Partial<Record<ToolErrorCode, number>>;
+  errorRate: number;
+  averageExecutionTime: number;
+  p50ExecutionTime: number;
+  p95ExecutionTime: number;
+  p99ExecutionTime: number;
+  lastExecutedAt?: number;
+}
+
+interface ExecutionRecord {
+  success: boolean;
+  executionTime: number;
+}
+
+interface ToolHistory {
+  executionCount: number;
+  successCount: number;
+  failureCount: number;
+  errorsByCode: Partial<Record<ToolErrorCode, number>>;
+  window: ExecutionRecord[];
+  lastExecutedAt?: number;
+}
+
+export class ExecutionMetrics {
+  private readonly windowSize: number;
+  private readonly history = new Map<string, ToolHistory>();
+  private readonly personaHistory = new Map<string, ToolHistory>();
+  private readonly providerHistory = new Map<string, ToolHistory>();
+  // tool:error arrives before tool:execute:end for the same request
+  private readonly pendingErrors = new Map<string, ToolErrorCode>();
+  private readonly unsubscribers: Array<() => void>;
+
+  constructor(eventBus: EventBus, config: ExecutionMetricsConfig = {}) {
+    this.windowSize = config.windowSize || 200;
+
+    this.unsubscribers = [
+      eventBus.on('tool:error', ({ error, requestId }) => {
+        if (!requestId) return; // registration errors are not executions
+        this.pendingErrors.set(requestId, errorCodeOf(error));
+      }, 'ExecutionMetrics'),
+      eventBus.on('tool:execute:end', (event) => this.record(event), 'ExecutionMetrics'),
+      eventBus.on('provider:call', ({ provider, persona, success, executionTime, error }) => {
+        const errorCode = success ? undefined : errorCodeOf(error);
+        this.append(this.providerHistory, provider, success, executionTime, errorCode);
+        if (persona) {
+          this.append(this.personaHistory, persona, success, executionTime, errorCode);
+        }
+      }, 'ExecutionMetrics')
+    ];
+  }
+
+  /**
+   * Metrics for one tool, or undefined if it has never executed
+   */
+  getToolMetrics(name: string): ToolExecutionMetrics | undefined {
+    const history = this.history.get(name);
+    return history ? this.summarize(history) : undefined;
+  }
+
+  /**
+   * Metrics for every tool that has executed
+   */
+  getAllToolMetrics(): Record<string, ToolExecutionMetrics> {
+    return this.summarizeAll(this.history);
+  }
+
+  /**
+   * Provider call metrics for every persona that has made one
+   */
+  getPersonaMetrics(): Record<string, ToolExecutionMetrics> {
+    return this.summarizeAll(this.personaHistory);
+  }
+
+  /**
+   * Call metrics for every provider that has been called
+   */
+  getProviderMetrics(): Record<string, ToolExecutionMetrics> {
+    return this.summarizeAll(this.providerHistory);
+  }
+
+  /**
+   * Aggregate metrics across all tools
+   */
+  getOverallMetrics(): ToolExecutionMetrics {
+    const combined: ToolHistory = {
+      executionCount: 0,
+      successCount: 0,
+      failureCount: 0,
+      errorsByCode: {},
+      window: []
+    };
+
+    this.history.forEach((history) => {
+      combined.executionCount += history.executionCount;
+      combined.successCount += history.successCount;
+      combined.failureCount += history.failureCount;
+      combined.window.push(...history.window);
+      for (const [code, count] of Object.entries(history.errorsByCode)) {
+        const key = code as ToolErrorCode;
+        combined.errorsByCode[key] = (combined.errorsByCode[key] || 0) + (count || 0);
+      }
+      combined.lastExecutedAt = Math.max(combined.lastExecutedAt || 0, history.lastExecutedAt || 0) || undefined;
+    });
+
+    return this.summarize(combined);
+  }
+
+  /**
+   * Stop listening to events
+   */
+  dispose(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.pendingErrors.clear();
+  }
+
+  private record(event: {
+    name: string;
+    requestId?: string;
+    success: boolean;
+    executionTime: number;
+  }): void {
+    const errorCode = event.requestId ? this.pendingErrors.get(event.requestId) : undefined;
+    if (event.requestId) this.pendingErrors.delete(event.requestId);
+
+    // Calls to unknown tools would grow the history without bound
+    if (errorCode === 'TOOL_NOT_FOUND') return;
+
+    this.append(this.history, event.name, event.success, event.executionTime, errorCode);
+  }
+
+  private append(
+    histories: Map<string, ToolHistory>,
+    key: string,
+    success: boolean,
+    executionTime: number,
+    errorCode: ToolErrorCode | undefined
+  ): void {
+    let history = histories.get(key);
+    if (!history) {
+      history = {
+        executionCount: 0,
+        successCount: 0,
+        failureCount: 0,
+        errorsByCode: {},
+        window: []
+      };
+      histories.set(key, history);
+    }
+
+    history.executionCount++;
+    history.lastExecutedAt = Date.now();
+    if (success) {
+      history.successCount++;
+    } else {
+      history.failureCount++;
+      const code = errorCode || 'UNKNOWN_ERROR';
+      history.errorsByCode[code] = (history.errorsByCode[code] || 0) + 1;
+    }
+
+    history.window.push({ success, executionTime });
+    if (history.window.length > this.windowSize) {
+      history.window.shift();
+    }
+  }
+
+  private summarizeAll(histories: Map<string, ToolHistory>): Record<string, ToolExecutionMetrics> {
+    const result: Record<string, ToolExecutionMetrics> = {};
+    histories.forEach((history, name) => {
+      result[name] = this.summarize(history);
+    });
+    return result;
+  }
+
+  private summarize(history: ToolHistory): ToolExecutionMetrics {
+    const latencies = history.window.map((r) => r.executionTime).sort((a, b) => a - b);
+    const failures = history.window.filter((r) => !r.success).length;
+    const total = latencies.reduce((sum, value) => sum + value, 0);
+
+    return {
+      executionCount: history.executionCount,
+      successCount: history.successCount,
+      failureCount: history.failureCount,
+      errorsByCode: { ...history.errorsByCode },
+      errorRate: history.window.length > 0 ? failures / history.window.length : 0,
+      averageExecutionTime: latencies.length > 0 ? Math.round(total / latencies.length) : 0,
+      p50ExecutionTime: percentile(latencies, 50),
+      p95ExecutionTime: percentile(latencies, 95),
+      p99ExecutionTime: percentile(latencies, 99),
+      lastExecutedAt: history.lastExecutedAt
+    };
+  }
+}
+
+/**
+ * Code recorded for a failure; errors that aren't ToolErrors count as unknown
+ */
+function errorCodeOf(error: unknown): ToolErrorCode {
+  return error instanceof ToolError ? error.code : 'UNKNOWN_ERROR';
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
@@ -0,0 +1,235 @@
+/**
+ * Execution Queue - Bounded, prioritized admission control for tool executions
+ * Enforces a global concurrency limit plus optional per-tool limits, queuing
+ * excess requests instead of rejecting them outright
+ */
+
+import { ToolError, ToolCancelledError } from './ToolCommand.js';
+
+export interface ExecutionQueueConfig {
+  /** Maximum executions running at once across all tools */
+  maxConcurrent: number;
+  /** Maximum requests waiting for a slot; further requests are rejected */
+  maxQueueSize: number;
+  /** How long a request may wait for a slot, in milliseconds */
+  queueTimeout: number;
+}
+
+export interface AcquireOptions {
+  /** Per-tool concurrency limit (undefined = only the global limit applies) */
+  toolLimit?: number;
+  /** Higher runs first; equal priorities run in arrival order */
+  priority?: number;
+  /** Removes the request from the queue when aborted */
+  signal?: AbortSignal;
+}
+
+export interface ExecutionQueueStats {
+  running: number;
+  queueDepth: number;
+  peakQueueDepth: number;
+  queuedByTool: Record<string, number>;
+  runningByTool: Record<string, number>;
+  totalQueued: number;
+  queueTimeouts: number;
+  queueRejections: number;
+  averageQueueWait: number;
+}
+
+interface QueueEntry {
+  toolName: string;
+  toolLimit?: number;
+  priority: number;
+  sequence: number;
+  enqueuedAt: number;
+  grant: () => void;
+  fail: (error: ToolError) => void;
+}
+
+/** Releases a slot acquired from the queue; safe to call more than once */
+export type ReleaseSlot = () => void;
+
+export class ExecutionQueue {
+  private readonly config: ExecutionQueueConfig;
+  private readonly runningByTool = new Map<string, number>();
+  private waiting: QueueEntry[] = [];
+  private running = 0;
+  private sequence = 0;
+  private peakQueueDepth = 0;
+  private totalQueued = 0;
+  private queueTimeouts = 0;
+  private queueRejections = 0;
+  private totalQueueWait = 0;
+  private grantedFromQueue = 0;
+
+  constructor(config: ExecutionQueueConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Wait for an execution slot for the given tool
+   */
+  acquire(toolName: string, options: AcquireOptions = {}): Promise<ReleaseSlot> {
+    const { toolLimit, priority = 0, signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(new ToolCancelledError(toolName));
+    }
+
+    // Fast path: every waiting entry is blocked (drain runs after each release),
+    // so if this tool has capacity nobody eligible is ahead of us
+    if (this.hasCapacity(toolName, toolLimit)) {
+      return Promise.resolve(this.start(toolName));
+    }
+
+    if (this.waiting.length >= this.config.maxQueueSize) {
+      this.queueRejections++;
+      return Promise.reject(
+        new ToolError(
+          `Execution queue is full (${this.config.maxQueueSize} waiting requests)`,
+          'RESOURCE_ERROR',
+          toolName
+        )
+      );
+    }
+
+    return new Promise<ReleaseSlot>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let onAbort: (() => void) | undefined;
+
+      const settle = () => {
+        clearTimeout(timer);
+        if (signal && onAbort) signal.removeEventListener('abort', onAbort);
+      };
+
+      const entry: QueueEntry = {
+        toolName,
+        toolLimit,
+        priority,
+        sequence: ++this.sequence,
+        enqueuedAt: Date.now(),
+        grant: () => {
+          settle();
+          this.totalQueueWait += Date.now() - entry.enqueuedAt;
+          this.grantedFromQueue++;
+          resolve(this.start(toolName));
+        },
+        fail: (error) => {
+          settle();
+          this.remove(entry);
+          reject(error);
+        }
+      };
+
+      timer = setTimeout(() => {
+        this.queueTimeouts++;
+        entry.fail(
+          new ToolError(
+            `Timed out after ${this.config.queueTimeout}ms waiting for an execution slot`,
+            'RESOURCE_ERROR',
+            toolName
+          )
+        );
+      }, this.config.queueTimeout);
+
+      if (signal) {
+        onAbort = () => entry.fail(new ToolCancelledError(toolName));
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+
+      this.enqueue(entry);
+    });
+  }
+
+  /**
+   * Queue statistics for monitoring
+   */
+  getStats(): ExecutionQueueStats {
+    const queuedByTool: Record<string, number> = {};
+    this.waiting.forEach((entry) => {
+      queuedByTool[entry.toolName] = (queuedByTool[entry.toolName] || 0) + 1;
+    });
+
+    return {
+      running: this.running,
+      queueDepth: this.waiting.length,
+      peakQueueDepth: this.peakQueueDepth,
+      queuedByTool,
+      runningByTool: Object.fromEntries(this.runningByTool),
+      totalQueued: this.totalQueued,
+      queueTimeouts: this.queueTimeouts,
+      queueRejections: this.queueRejections,
+      averageQueueWait:
+        this.grantedFromQueue > 0
+          ? Math.round(this.totalQueueWait / this.grantedFromQueue)
+          : 0
+    };
+  }
+
+  private hasCapacity(toolName: string, toolLimit?: number): boolean {
+    if (this.running >= this.config.maxConcurrent) {
+      return false;
+    }
+    return toolLimit === undefined || (this.runningByTool.get(toolName) || 0) < toolLimit;
+  }
+
+  private start(toolName: string): ReleaseSlot {
+    this.running++;
+    this.runningByTool.set(toolName, (this.runningByTool.get(toolName) || 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      this.running--;
+      const count = (this.runningByTool.get(toolName) || 1) - 1;
+      if (count === 0) {
+        this.runningByTool.delete(toolName);
+      } else {
+        this.runningByTool.set(toolName, count);
+      }
+
+      this.drain();
+    };
+  }
+
+  /**
+   * Insert keeping the queue ordered by priority (desc), then arrival (asc)
+   */
+  private enqueue(entry: QueueEntry): void {
+    const index = this.waiting.findIndex(
+      (other) =>
+        other.priority < entry.priority ||
+        (other.priority === entry.priority && other.sequence > entry.sequence)
+    );
+    if (index === -1) {
+      this.waiting.push(entry);
+    } else {
+      this.waiting.splice(index, 0, entry);
+    }
+
+    this.totalQueued++;
+    this.peakQueueDepth = Math.max(this.peakQueueDepth, this.waiting.length);
+  }
+
+  private remove(entry: QueueEntry): void {
+    this.waiting = this.waiting.filter((other) => other !== entry);
+  }
+
+  /**
+   * Grant slots to waiting requests, skipping entries whose tool is at its
+   * own limit so one saturated tool cannot block cheaper ones behind it
+   */
+  private drain(): void {
+    for (const entry of [...this.waiting]) {
+      if (this.running >= this.config.maxConcurrent) {
+        return;
+      }
+      if (this.hasCapacity(entry.toolName, entry.toolLimit)) {
+        this.remove(entry);
+        entry.grant();
+      }
+    }
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Hot Reloader - Development watch mode that re-imports changed tool and
+ * persona modules and swaps them into the ToolRegistry and PersonaRegistry,
+ * and unregisters what a deleted module provided
+ */
+
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+
+import type { ToolCommand } from "./ToolCommand.js";
+import { ToolRegistry } from "./ToolRegistry.js";
+import { collectToolExports, sandboxManifestPath, validateToolCommand } from "./ToolDiscovery.js";
+import { toolId } from "./toolVersions.js";
+import { PersonaRegistry, type Persona } from "../personas/types.js";
+import { eventBus, type EventBus } from "../infra/eventBus.js";
+
+const WATCHED_EXTENSIONS = [".js", ".mjs", ".ts"];
+
+// Shared by every reloader so cache-busting specifiers are never reused
+let reloadCounter = 0;
+
+export interface HotReloadOptions {
+  /** Directories holding ToolCommand modules (built-in tools, plugins) */
+  toolDirs: string[];
+  /** Directories holding self-registering persona modules */
+  personaDirs: string[];
+  /** Quiet period before a changed file is reloaded, in milliseconds */
+  debounceMs?: number;
+}
+
+export interface HotReloadResult {
+  module: string;
+  tools: string[];
+  personas: string[];
+  /** Set when the module was deleted and its tools and personas unregistered */
+  removed?: boolean;
+  error?: string;
+}
+
+export class HotReloader {
+  private readonly registry: ToolRegistry;
+  private readonly eventBus: EventBus;
+  private readonly options: Required<HotReloadOptions>;
+  private watchers: fs.FSWatcher[] = [];
+  private pending = new Map<string, ReturnType<typeof setTimeout>>();
+  // What each watched module provides, so deleting it can unregister them
+  private moduleTools = new Map<string, Set<string>>();
+  private modulePersonas = new Map<string, Set<string>>();
+  private indexing: Promise<void> = Promise.resolve();
+
+  constructor(
+    registry: ToolRegistry,
+    options: HotReloadOptions,
+    eventBusInstance?: EventBus
+  ) {
+    this.registry = registry;
+    this.eventBus = eventBusInstance || eventBus;
+    this.options = {
+      toolDirs: options.toolDirs.map((dir) => path.resolve(dir)),
+      personaDirs: options.personaDirs.map((dir) => path.resolve(dir)),
+      debounceMs: options.debounceMs ?? 200,
+    };
+  }
+
+  /**
+   * Start watching every configured directory that exists
+   */
+  start(): void {
+    for (const directory of [...this.options.toolDirs, ...this.options.personaDirs]) {
+      if (!fs.existsSync(directory)) continue;
+
+      const watcher = fs.watch(directory, { recursive: true }, (_event, filename) => {
+        if (!filename) return;
+        const modulePath = path.join(directory, filename.toString());
+        if (!WATCHED_EXTENSIONS.includes(path.extname(modulePath))) return;
+        if (modulePath.endsWith(".d.ts")) return;
+        // Sandboxed modules are only imported by workers, which load them fresh
+        if (fs.existsSync(sandboxManifestPath(modulePath))) return;
+        this.schedule(modulePath);
+      });
+      watcher.on("error", (error) =>
+        console.error(`⚠️ Watch error (${directory}):`, error)
+      );
+      this.watchers.push(watcher);
+    }
+
+    this.indexing = this.indexModules();
+    console.error(`👀 Watching ${this.watchers.length} directories for tool and persona changes`);
+  }
+
+  /**
+   * Stop watching and drop any pending reloads
+   */
+  stop(): void {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers = [];
+    this.pending.forEach((timer) => clearTimeout(timer));
+    this.pending.clear();
+  }
+
+  /**
+   * Editors emit several events per save; reload once things settle
+   */
+  private schedule(modulePath: string): void {
+    clearTimeout(this.pending.get(modulePath));
+    this.pending.set(
+      modulePath,
+      setTimeout(() => {
+        this.pending.delete(modulePath);
+        if (fs.existsSync(modulePath)) {
+          void this.reloadModule(modulePath);
+        } else {
+          void this.removeModule(modulePath);
+        }
+      }, this.options.debounceMs)
+    );
+  }
+
+  /**
+   * Re-import one module and swap its tools or personas into the registries.
+   * Only the changed module is re-evaluated; its own imports stay cached.
+   */
+  async reloadModule(modulePath: string): Promise<HotReloadResult> {
+    const result: HotReloadResult = {
+      module: path.resolve(modulePath),
+      tools: [],
+      personas: [],
+    };
+
+    try {
+      const previousPersonas = new Map(
+        PersonaRegistry.list().map((persona) => [persona.id, persona])
+      );
+      const exports = await this.importFresh(result.module);
+
+      if (this.isPersonaModule(result.module)) {
+        // Persona modules register themselves on import, replacing the old entry
+        result.personas = PersonaRegistry.list()
+          .filter((persona: Persona) => previousPersonas.get(persona.id) !== persona)
+          .map((persona) => persona.id);
+        this.track(this.modulePersonas, result.module, result.personas);
+      } else {
+        const ids = await this.replaceTools(result.module, exports);
+        this.track(this.moduleTools, result.module, ids);
+        result.tools = ids.map((id) => this.registry.getRegistration(id)?.tool.name ?? id);
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error(`⚠️ Hot reload failed (${result.module}): ${result.error}`);
+    }
+
+    if (result.error || result.tools.length > 0 || result.personas.length > 0) {
+      this.eventBus.emit("registry:reload", result);
+    }
+    if (result.tools.length > 0 || result.personas.length > 0) {
+      console.error(
+        `🔄 Reloaded ${[...result.tools, ...result.personas].join(", ")} from ${result.module}`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * A module was deleted: unregister the tools (dependents included, as on
+   * reload) and personas it provided
+   */
+  async removeModule(modulePath: string): Promise<HotReloadResult> {
+    await this.indexing;
+    const module = path.resolve(modulePath);
+    const result: HotReloadResult = { module, tools: [], personas: [], removed: true };
+
+    const toolIds = new Set(this.moduleTools.get(module));
+    // Plugins are registered with their module path as source
+    for (const registration of this.registry.listRegistrations()) {
+      if (registration.source === module) toolIds.add(toolId(registration.tool));
+    }
+
+    try {
+      for (const id of toolIds) {
+        const registration = this.registry.getRegistration(id);
+        if (!registration) continue;
+        await this.registry.unregister(id, "module deleted", { force: true });
+        result.tools.push(registration.tool.name);
+      }
+      for (const id of this.modulePersonas.get(module) ?? []) {
+        if (PersonaRegistry.unregister(id)) result.personas.push(id);
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error(`⚠️ Hot reload failed (${module}): ${result.error}`);
+    }
+    this.moduleTools.delete(module);
+    this.modulePersonas.delete(module);
+
+    if (result.error || result.tools.length > 0 || result.personas.length > 0) {
+      this.eventBus.emit("registry:reload", result);
+    }
+    if (result.tools.length > 0 || result.personas.length > 0) {
+      console.error(
+        `🗑️ Removed ${[...result.tools, ...result.personas].join(", ")} with ${module}`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Record which module defines each registered built-in tool and persona.
+   * Modules were imported at startup, so these imports come from the cache.
+   * Only direct exports count, so barrels like tools/index don't claim tools.
+   */
+  private async indexModules(): Promise<void> {
+    for (const directory of [...this.options.toolDirs, ...this.options.personaDirs]) {
+      if (!fs.existsSync(directory)) continue;
+
+      for (const entry of fs.readdirSync(directory, { recursive: true })) {
+        const modulePath = path.join(directory, entry.toString());
+        if (!WATCHED_EXTENSIONS.includes(path.extname(modulePath))) continue;
+        if (modulePath.endsWith(".d.ts")) continue;
+        if (fs.existsSync(sandboxManifestPath(modulePath))) continue;
+
+        let exports: Record<string, unknown>;
+        try {
+          exports = await import(
+            process.versions.bun ? modulePath : pathToFileURL(modulePath).href
+          );
+        } catch {
+          continue;
+        }
+
+        for (const value of Object.values(exports)) {
+          if (typeof value !== "object" || value === null) continue;
+          const { id } = value as Partial<Persona>;
+          if (typeof id === "string" && PersonaRegistry.get(id) === value) {
+            this.track(this.modulePersonas, modulePath, [id]);
+          }
+          const tool = value as ToolCommand;
+          if (typeof tool.name === "string" && this.registry.getRegistration(toolId(tool))?.tool === tool) {
+            this.track(this.moduleTools, modulePath, [toolId(tool)]);
+          }
+        }
+      }
+    }
+  }
+
+  private track(index: Map<string, Set<string>>, modulePath: string, ids: string[]): void {
+    if (ids.length === 0) return;
+    const known = index.get(modulePath) ?? new Set<string>();
+    ids.forEach((id) => known.add(id));
+    index.set(modulePath, known);
+  }
+
+  /**
+   * Unregister the old version of each exported tool and register the new one,
+   * keeping its original source and enabled state; returns the tool ids
+   */
+  private async replaceTools(
+    modulePath: string,
+    exports: Record<string, unknown>
+  ): Promise<string[]> {
+    const replaced: string[] = [];
+
+    for (const candidate of collectToolExports(exports)) {
+      const problem = validateToolCommand(candidate);
+      if (problem) {
+        throw new Error(problem);
+      }
+
+      const tool = candidate as ToolCommand;
+      const id = toolId(tool);
+      const previous = this.registry.getRegistration(id);
+      // Re-exported tools from cached modules (e.g. tools/index) are unchanged
+      if (previous?.tool === tool) continue;
+
+      if (previous) {
+        // Dependents stay registered; the new version takes its place right away
+        await this.registry.unregister(id, "hot reload", { force: true });
+      }
+      await this.registry.register(tool, previous?.source ?? modulePath);
+      if (previous && !previous.enabled) {
+        this.registry.setEnabled(id, false);
+      }
+      replaced.push(id);
+    }
+
+    return replaced;
+  }
+
+  private isPersonaModule(modulePath: string): boolean {
+    return this.options.personaDirs.some(
+      (dir) => modulePath === dir || modulePath.startsWith(dir + path.sep)
+    );
+  }
+
+  /**
+   * Import a module bypassing the ESM cache with a unique query string.
+   * Bun ignores the query on file: URLs, so it gets the plain path instead.
+   */
+  private async importFresh(modulePath: string): Promise<Record<string, unknown>> {
+    const query = `?reload=${++reloadCounter}`;
+    return import(
+      process.versions.bun
+        ? `${modulePath}${query}`
+        : `${pathToFileURL(modulePath).href}${query}`
+    );
+  }
+}
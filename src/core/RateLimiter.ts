@@ -0,0 +1,161 @@
+/**
+ * Rate Limiter - Token buckets per tool, persona and provider
+ * Each bucket holds up to `capacity` calls and refills continuously at
+ * `refillPerMinute`. A call that finds its bucket empty is rejected right
+ * away with a RESOURCE_ERROR saying when to retry, rather than queued.
+ */
+
+import { ToolError } from './ToolCommand.js';
+
+export type RateLimitScope = 'tool' | 'persona' | 'provider';
+
+export interface RateLimit {
+  /** Calls allowed back to back */
+  capacity: number;
+  /** Tokens added per minute (default: capacity) */
+  refillPerMinute?: number;
+}
+
+/**
+ * Limits by name within each scope. The key `*` applies to every name
+ * without its own entry, each name still getting a separate bucket.
+ */
+export interface RateLimitConfig {
+  tools?: Record<string, RateLimit>;
+  personas?: Record<string, RateLimit>;
+  providers?: Record<string, RateLimit>;
+}
+
+export interface RateLimitBucketStats {
+  scope: RateLimitScope;
+  key: string;
+  /** Tokens currently available */
+  tokens: number;
+  capacity: number;
+  refillPerMinute: number;
+  /** Calls rejected since the limiter was configured */
+  rejected: number;
+}
+
+const SCOPE_SECTIONS: Record<RateLimitScope, keyof RateLimitConfig> = {
+  tool: 'tools',
+  persona: 'personas',
+  provider: 'providers'
+};
+
+interface Bucket {
+  scope: RateLimitScope;
+  key: string;
+  capacity: number;
+  refillPerMinute: number;
+  tokens: number;
+  updatedAt: number;
+  rejected: number;
+}
+
+export class RateLimiter {
+  private config: RateLimitConfig = {};
+  private buckets = new Map<string, Bucket>();
+
+  /**
+   * Replace the limits; every bucket starts full again
+   */
+  configure(config: RateLimitConfig = {}): void {
+    this.config = config;
+    this.buckets.clear();
+  }
+
+  /**
+   * Take one token for `key`, or throw a RESOURCE_ERROR carrying how long
+   * until the next token. Names without a limit always pass.
+   */
+  take(scope: RateLimitScope, key: string, toolName?: string): void {
+    const bucket = this.getBucket(scope, key);
+    if (!bucket) return;
+
+    this.refill(bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+
+    bucket.rejected++;
+    const retryAfterMs = Math.ceil(((1 - bucket.tokens) * 60_000) / bucket.refillPerMinute);
+    throw new ToolError(
+      `Rate limit exceeded for ${scope} '${key}' (${bucket.capacity} calls, refilling ${bucket.refillPerMinute}/min); retry after ${Math.ceil(retryAfterMs / 1000)}s`,
+      'RESOURCE_ERROR',
+      toolName,
+      undefined,
+      {
+        retryAfterMs,
+        remediation: `Wait before calling again, or raise rateLimits.${SCOPE_SECTIONS[scope]}.${key}`
+      }
+    );
+  }
+
+  /**
+   * Give back a token taken for a call that was then rejected elsewhere
+   */
+  refund(scope: RateLimitScope, key: string): void {
+    const bucket = this.getBucket(scope, key);
+    if (!bucket) return;
+
+    this.refill(bucket);
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + 1);
+  }
+
+  /**
+   * Current level of every configured bucket, including ones not used yet
+   */
+  getStats(): RateLimitBucketStats[] {
+    for (const scope of Object.keys(SCOPE_SECTIONS) as RateLimitScope[]) {
+      for (const key of Object.keys(this.config[SCOPE_SECTIONS[scope]] ?? {})) {
+        if (key !== '*') this.getBucket(scope, key);
+      }
+    }
+
+    return Array.from(this.buckets.values()).map((bucket) => {
+      this.refill(bucket);
+      return {
+        scope: bucket.scope,
+        key: bucket.key,
+        tokens: Math.floor(bucket.tokens * 100) / 100,
+        capacity: bucket.capacity,
+        refillPerMinute: bucket.refillPerMinute,
+        rejected: bucket.rejected
+      };
+    });
+  }
+
+  private getBucket(scope: RateLimitScope, key: string): Bucket | undefined {
+    const id = `${scope}:${key}`;
+    let bucket = this.buckets.get(id);
+    if (!bucket) {
+      const limits = this.config[SCOPE_SECTIONS[scope]];
+      const limit = limits?.[key] ?? limits?.['*'];
+      if (!limit) return undefined;
+
+      bucket = {
+        scope,
+        key,
+        capacity: limit.capacity,
+        refillPerMinute: limit.refillPerMinute ?? limit.capacity,
+        tokens: limit.capacity,
+        updatedAt: Date.now(),
+        rejected: 0
+      };
+      this.buckets.set(id, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: Bucket): void {
+    const now = Date.now();
+    const elapsedMinutes = (now - bucket.updatedAt) / 60_000;
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsedMinutes * bucket.refillPerMinute);
+    bucket.updatedAt = now;
+  }
+}
+
+// Shared by the dispatcher (tools) and the provider clients (personas, providers)
+export const rateLimiter = new RateLimiter();
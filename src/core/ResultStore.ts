@@ -0,0 +1,83 @@
+/**
+ * Result Store - Keeps recent tool results so clients can read them back
+ * as `result://<requestId>` resources. Results are scoped to the session
+ * that produced them, and each session's are bounded by count and age; the
+ * oldest results are dropped first.
+ */
+
+export interface StoredResult {
+  requestId: string;
+  /** Tool that produced the result */
+  tool: string;
+  version?: string;
+  /** Full text of the response */
+  text: string;
+  createdAt: number;
+  /** Session that made the call; only it can list and read the result */
+  sessionId?: string;
+}
+
+export interface ResultStoreOptions {
+  /** Results kept per session at most (default 50) */
+  maxResults?: number;
+  /** How long a result stays readable, in milliseconds (default 1 hour) */
+  maxAgeMs?: number;
+}
+
+export class ResultStore {
+  private readonly maxResults: number;
+  private readonly maxAgeMs: number;
+  // Per session; insertion order is creation order, so the first entry is the oldest
+  private sessions = new Map<string | undefined, Map<string, StoredResult>>();
+
+  constructor(options: ResultStoreOptions = {}) {
+    this.maxResults = options.maxResults ?? 50;
+    this.maxAgeMs = options.maxAgeMs ?? 60 * 60 * 1000;
+  }
+
+  put(result: StoredResult): void {
+    let results = this.sessions.get(result.sessionId);
+    if (!results) {
+      results = new Map();
+      this.sessions.set(result.sessionId, results);
+    }
+    results.delete(result.requestId);
+    results.set(result.requestId, result);
+    this.prune();
+  }
+
+  get(requestId: string, sessionId?: string): StoredResult | undefined {
+    this.prune();
+    return this.sessions.get(sessionId)?.get(requestId);
+  }
+
+  /**
+   * A session's readable results, newest first
+   */
+  list(sessionId?: string): StoredResult[] {
+    this.prune();
+    return Array.from(this.sessions.get(sessionId)?.values() ?? []).reverse();
+  }
+
+  /**
+   * Forget a closed session's results
+   */
+  dropSession(sessionId?: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.maxAgeMs;
+    for (const [sessionId, results] of this.sessions) {
+      for (const [requestId, result] of results) {
+        if (results.size <= this.maxResults && result.createdAt >= cutoff) break;
+        results.delete(requestId);
+      }
+      if (results.size === 0) this.sessions.delete(sessionId);
+    }
+  }
+}
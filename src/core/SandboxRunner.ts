@@ -0,0 +1,172 @@
+/**
+ * Sandbox Runner - Executes tools marked `constraints.requiresSandbox` in a
+ * worker thread with a memory limit, an allowlisted filesystem root and a
+ * hard kill when the execution is aborted (timeout, cancellation, shutdown)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { fileURLToPath } from 'url';
+
+import {
+  ToolCommand,
+  CommandContext,
+  ToolError,
+  ToolErrorCode,
+  ToolExecutionError
+} from './ToolCommand.js';
+import { SANDBOX_VIOLATION, type SandboxWorkerData, type SandboxWorkerMessage } from './sandboxWorker.js';
+
+// The worker runs from source under bun/tsx and from build/ under node
+const currentFile = fileURLToPath(import.meta.url);
+const WORKER_PATH = path.join(path.dirname(currentFile), `sandboxWorker${path.extname(currentFile)}`);
+
+const TOOL_ERROR_CODES: ReadonlySet<string> = new Set<ToolErrorCode>([
+  'TOOL_NOT_FOUND',
+  'DUPLICATE_TOOL',
+  'VALIDATION_ERROR',
+  'EXECUTION_ERROR',
+  'TIMEOUT_ERROR',
+  'CANCELLED',
+  'SANDBOX_ERROR',
+  'DEPENDENCY_ERROR',
+  'PERMISSION_ERROR',
+  'RESOURCE_ERROR',
+  'UNKNOWN_ERROR'
+]);
+
+export interface SandboxOptions {
+  /** The only directory tree sandboxed tools may touch */
+  allowedRoot: string;
+}
+
+export class SandboxRunner {
+  private readonly allowedRoot: string;
+
+  constructor(options: SandboxOptions) {
+    this.allowedRoot = path.resolve(options.allowedRoot);
+  }
+
+  /**
+   * Run one execution of `tool` in a fresh worker. The worker re-imports the
+   * tool from `modulePath`, so only tools loaded from a module file qualify.
+   */
+  run(
+    tool: ToolCommand,
+    modulePath: string | undefined,
+    args: unknown,
+    context: CommandContext
+  ): Promise<unknown> {
+    if (!modulePath || !path.isAbsolute(modulePath) || !fs.existsSync(modulePath)) {
+      return Promise.reject(new ToolError(
+        `Tool '${tool.name}' requires a sandbox but was not loaded from a module file`,
+        'SANDBOX_ERROR',
+        tool.name,
+        undefined,
+        { retryable: false, remediation: 'Load sandboxed tools as plugins so they can run in a worker' }
+      ));
+    }
+
+    const maxMemory = tool.metadata?.constraints?.maxMemory;
+    const maxMemoryMb = maxMemory ? Math.max(1, Math.ceil(maxMemory / (1024 * 1024))) : undefined;
+    const workerData: SandboxWorkerData = {
+      modulePath,
+      toolName: tool.name,
+      args,
+      config: context.config,
+      requestId: context.requestId,
+      allowedRoot: this.allowedRoot,
+      // Manifest-declared tools only carry a placeholder schema in this thread
+      validateArgs: tool.inputSchema !== undefined
+    };
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(WORKER_PATH, {
+        workerData,
+        ...(maxMemoryMb && { resourceLimits: { maxOldGenerationSizeMb: maxMemoryMb } })
+      });
+      let settled = false;
+
+      const settle = (error: unknown, result?: unknown) => {
+        if (settled) return;
+        settled = true;
+        context.signal?.removeEventListener('abort', onAbort);
+        void worker.terminate();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result);
+        }
+      };
+
+      // Hard kill: the tool gets no chance to ignore the abort
+      const onAbort = () => settle(context.signal?.reason ?? new ToolError(
+        `Tool '${tool.name}' was aborted`, 'CANCELLED', tool.name
+      ));
+      if (context.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      context.signal?.addEventListener('abort', onAbort, { once: true });
+
+      worker.on('message', (message: SandboxWorkerMessage) => {
+        switch (message.type) {
+          case 'progress':
+            context.progress?.(message.update);
+            break;
+          case 'result':
+            settle(undefined, message.result);
+            break;
+          case 'error':
+            settle(toToolError(message.error, tool.name));
+            break;
+        }
+      });
+      worker.on('error', (error) => settle(workerFailureToError(error, tool.name, maxMemoryMb)));
+      worker.on('exit', (code) => settle(new ToolError(
+        `Sandbox worker for tool '${tool.name}' exited with code ${code} before returning a result`,
+        'SANDBOX_ERROR',
+        tool.name
+      )));
+    });
+  }
+}
+
+/**
+ * Rebuild an error thrown inside the worker; ToolErrors keep their code
+ */
+function toToolError(
+  error: Extract<SandboxWorkerMessage, { type: 'error' }>['error'],
+  toolName: string
+): ToolError {
+  if (error.code === SANDBOX_VIOLATION) {
+    return new ToolError(`Sandbox violation in tool '${toolName}': ${error.message}`, 'SANDBOX_ERROR', toolName, undefined, {
+      retryable: false,
+      remediation: 'Keep file access inside the sandbox root and avoid spawning processes'
+    });
+  }
+  if (error.code && TOOL_ERROR_CODES.has(error.code)) {
+    return new ToolError(error.message, error.code as ToolErrorCode, toolName, undefined, {
+      retryable: error.retryable,
+      remediation: error.remediation
+    });
+  }
+  return new ToolExecutionError(toolName, error.message);
+}
+
+/**
+ * Map a worker crash to a ToolError; running out of heap is a RESOURCE_ERROR
+ */
+export function workerFailureToError(error: Error, toolName: string, maxMemoryMb?: number): ToolError {
+  if ((error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY') {
+    return new ToolError(
+      `Tool '${toolName}' exceeded its memory limit${maxMemoryMb ? ` of ${maxMemoryMb}MB` : ''}`,
+      'RESOURCE_ERROR',
+      toolName,
+      error,
+      { retryable: false, remediation: 'Reduce the input size or raise constraints.maxMemory' }
+    );
+  }
+  return new ToolError(`Sandbox worker for tool '${toolName}' failed: ${error.message}`, 'SANDBOX_ERROR', toolName, error);
+}
@@ -18,8 +18,53 @@ export interface CommandContext {
   startTime: number;
   /** Tool-specific configuration */
   config?: Record<string, any>;
+  /** Aborted when the client cancels the request or the dispatcher times it out */
+  signal?: AbortSignal;
+  /** Reports execution stages to the client (MCP notifications/progress) */
+  progress?: ProgressReporter;
+  /** Asks the client's own model for a completion; set when the client supports sampling */
+  sample?: Sampler;
 }
 
+/**
+ * A single progress update from a running tool
+ */
+export interface ProgressUpdate {
+  /** Human-readable stage, e.g. "finished arxiv (2/6)" */
+  message: string;
+  /** Current step; auto-incremented by the dispatcher when omitted */
+  progress?: number;
+  /** Total steps, if known */
+  total?: number;
+}
+
+export type ProgressReporter = (update: ProgressUpdate) => void;
+
+/**
+ * A completion request sent back to the client (MCP sampling/createMessage)
+ */
+export interface SamplingRequest {
+  systemPrompt: string;
+  prompt: string;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface SamplingResult {
+  text: string;
+  /** Model the client used */
+  model: string;
+}
+
+export type Sampler = (request: SamplingRequest) => Promise<SamplingResult>;
+
+/**
+ * The slice of CommandContext that tool implementations consume
+ */
+export type ToolRunContext = Partial<
+  Pick<CommandContext, "signal" | "progress" | "config" | "sample">
+>;
+
 /**
  * Tool command interface - all MCP tools must implement this
  */
@@ -30,8 +75,14 @@ export interface ToolCommand<TArgs = any, TResult = any> {
   /** Human-readable description */
   readonly description: string;
   
-  /** Zod schema for argument validation */
-  readonly schema: z.ZodSchema<TArgs>;
+  /** Zod schema for argument validation (input may differ from output via defaults) */
+  readonly schema: z.ZodType<TArgs, z.ZodTypeDef, any>;
+  
+  /**
+   * JSON Schema advertised instead of one derived from `schema`. Only set for
+   * tools declared in a sandbox manifest, whose zod schema lives in the worker.
+   */
+  readonly inputSchema?: MCPToolInputSchema;
   
   /** Tool version (semantic versioning) */
   readonly version?: string;
@@ -67,12 +118,16 @@ export interface ToolMetadata {
   constraints?: {
     maxExecutionTime?: number; // milliseconds
     maxMemory?: number; // bytes
+    maxConcurrency?: number; // simultaneous executions of this tool
     requiresSandbox?: boolean;
   };
   
-  /** Dependencies */
+  /** Tools that must be registered (and enabled) for this one to work; `name@2` pins a major version */
   dependencies?: string[];
   
+  /** Marks this version deprecated; a string replaces the default notice */
+  deprecated?: boolean | string;
+  
   /** Configuration schema */
   configSchema?: z.ZodSchema<any>;
 }
@@ -88,6 +143,10 @@ export interface ToolHealthStatus {
     executionCount?: number;
     averageExecutionTime?: number;
     errorRate?: number;
+    p50ExecutionTime?: number;
+    p95ExecutionTime?: number;
+    p99ExecutionTime?: number;
+    errorsByCode?: Partial<Record<ToolErrorCode, number>>;
   };
 }
 
@@ -116,6 +175,39 @@ export interface ToolExecutionResult<T = any> {
   };
 }
 
+/**
+ * Optional hints attached to a tool error for clients and agents
+ */
+export interface ToolErrorDetails {
+  /** Whether repeating the same call may succeed; defaults by error code */
+  retryable?: boolean;
+  /** What the user or agent can do about it, e.g. "Set XAI_API_KEY" */
+  remediation?: string;
+  /** How long to wait before retrying, e.g. until a rate limit refills */
+  retryAfterMs?: number;
+}
+
+/**
+ * Error codes where retrying the same call may succeed
+ */
+const RETRYABLE_ERROR_CODES: ReadonlySet<ToolErrorCode> = new Set<ToolErrorCode>([
+  'TIMEOUT_ERROR',
+  'RESOURCE_ERROR',
+  'CANCELLED'
+]);
+
+/**
+ * Default remediation hints by error code
+ */
+const DEFAULT_REMEDIATION: Partial<Record<ToolErrorCode, string>> = {
+  TOOL_NOT_FOUND: 'Call tools/list to see the available tools',
+  VALIDATION_ERROR: "Fix the arguments to match the tool's inputSchema",
+  TIMEOUT_ERROR: 'Retry with a smaller input or a lower reasoning_effort',
+  RESOURCE_ERROR: 'Retry after a short delay',
+  PERMISSION_ERROR: 'Check the server configuration and API keys',
+  DEPENDENCY_ERROR: 'Load or enable the required tools first, or pass cascade to include dependent tools'
+};
+
 /**
  * Base class for tool errors
  */
@@ -124,11 +216,24 @@ export class ToolError extends Error {
     message: string,
     public readonly code: ToolErrorCode,
     public readonly toolName?: string,
-    public readonly cause?: Error
+    public readonly cause?: Error,
+    private readonly details: ToolErrorDetails = {}
   ) {
     super(message);
     this.name = 'ToolError';
   }
+
+  get retryable(): boolean {
+    return this.details.retryable ?? RETRYABLE_ERROR_CODES.has(this.code);
+  }
+
+  get remediation(): string | undefined {
+    return this.details.remediation ?? DEFAULT_REMEDIATION[this.code];
+  }
+
+  get retryAfterMs(): number | undefined {
+    return this.details.retryAfterMs;
+  }
 }
 
 /**
@@ -149,15 +254,15 @@ export class DuplicateToolError extends ToolError {
 }
 
 export class ToolValidationError extends ToolError {
-  constructor(toolName: string, validationMessage: string, cause?: Error) {
-    super(`Validation failed for tool '${toolName}': ${validationMessage}`, 'VALIDATION_ERROR', toolName, cause);
+  constructor(toolName: string, validationMessage: string, cause?: Error, details?: ToolErrorDetails) {
+    super(`Validation failed for tool '${toolName}': ${validationMessage}`, 'VALIDATION_ERROR', toolName, cause, details);
     this.name = 'ToolValidationError';
   }
 }
 
 export class ToolExecutionError extends ToolError {
-  constructor(toolName: string, executionMessage: string, cause?: Error) {
-    super(`Execution failed for tool '${toolName}': ${executionMessage}`, 'EXECUTION_ERROR', toolName, cause);
+  constructor(toolName: string, executionMessage: string, cause?: Error, details?: ToolErrorDetails) {
+    super(`Execution failed for tool '${toolName}': ${executionMessage}`, 'EXECUTION_ERROR', toolName, cause, details);
     this.name = 'ToolExecutionError';
   }
 }
@@ -169,6 +274,20 @@ export class ToolTimeoutError extends ToolError {
   }
 }
 
+export class ToolDependencyError extends ToolError {
+  constructor(toolName: string, message: string) {
+    super(message, 'DEPENDENCY_ERROR', toolName);
+    this.name = 'ToolDependencyError';
+  }
+}
+
+export class ToolCancelledError extends ToolError {
+  constructor(toolName: string, reason: string = 'by the client') {
+    super(`Tool '${toolName}' execution was cancelled ${reason}`, 'CANCELLED', toolName);
+    this.name = 'ToolCancelledError';
+  }
+}
+
 /**
  * Tool error codes
  */
@@ -178,7 +297,9 @@ export type ToolErrorCode =
   | 'VALIDATION_ERROR'
   | 'EXECUTION_ERROR'
   | 'TIMEOUT_ERROR'
+  | 'CANCELLED'
   | 'SANDBOX_ERROR'
+  | 'DEPENDENCY_ERROR'
   | 'PERMISSION_ERROR'
   | 'RESOURCE_ERROR'
   | 'UNKNOWN_ERROR';
@@ -205,8 +326,23 @@ export interface ToolEventMap {
   };
   'tool:unregistered': {
     name: string;
+    version?: string;
     reason?: string;
   };
+  'tool:enabled': {
+    name: string;
+    version?: string;
+  };
+  'tool:disabled': {
+    name: string;
+    version?: string;
+  };
+  'tool:deprecated': {
+    name: string;
+    version?: string;
+    requestId?: string;
+    message: string;
+  };
   'tool:execute:start': {
     name: string;
     requestId?: string;
@@ -223,6 +359,13 @@ export interface ToolEventMap {
     error: ToolError;
     requestId?: string;
   };
+  'tool:progress': {
+    name: string;
+    requestId?: string;
+    progress: number;
+    total?: number;
+    message: string;
+  };
   'tool:lifecycle': {
     name: string;
     state: ToolLifecycle;
@@ -234,12 +377,54 @@ export interface ToolEventMap {
   };
 }
 
+/**
+ * JSON Schema shape advertised for a tool's arguments
+ */
+export interface MCPToolInputSchema {
+  type: "object";
+  properties?: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * A block of MCP tool output: text, or a link to a resource the client
+ * can read separately (e.g. `result://<requestId>` for a long report)
+ */
+export type MCPToolContent =
+  | {
+      type: "text";
+      text: string;
+    }
+  | {
+      type: "resource_link";
+      uri: string;
+      name: string;
+      description?: string;
+      mimeType?: string;
+      size?: number;
+    };
+
 /**
  * Utility type for MCP tool responses
  */
 export interface MCPToolResponse {
-  content: Array<{
-    type: "text";
-    text: string;
-  }>;
+  content: MCPToolContent[];
+  /** Set on failures so clients can tell errors from answers */
+  isError?: boolean;
+  structuredContent?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Machine-readable error carried in MCPToolResponse.structuredContent
+ */
+export interface MCPToolErrorContent {
+  code: ToolErrorCode;
+  message: string;
+  tool: string;
+  requestId?: string;
+  retryable: boolean;
+  remediation?: string;
+  retryAfterMs?: number;
 }
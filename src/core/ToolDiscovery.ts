@@ -0,0 +1,368 @@
+/**
+ * Tool Discovery - Loads third-party ToolCommand modules from plugin
+ * directories and npm packages and registers them with the ToolRegistry
+ */
+
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { z } from "zod";
+
+import { ToolError, type MCPToolInputSchema, type ToolCommand, type ToolMetadata } from "./ToolCommand.js";
+import { ToolRegistry } from "./ToolRegistry.js";
+import { buildInputSchema } from "./inputSchema.js";
+import { parseVersion } from "./toolVersions.js";
+import { eventBus, type EventBus } from "../infra/eventBus.js";
+
+/**
+ * package.json field that marks an npm package as a coding-mcp plugin.
+ * `true` loads the package main entry; a string names the entry to load.
+ */
+export const PLUGIN_PACKAGE_FIELD = "codingMcpPlugin";
+
+/**
+ * Sidecar manifest declaring a module's sandboxed tools, e.g. `tools.js` →
+ * `tools.sandbox.json`. Modules with one are never imported in the main
+ * process; only the sandbox worker loads them.
+ */
+export function sandboxManifestPath(modulePath: string): string {
+  const { dir, name } = path.parse(modulePath);
+  return path.join(dir, `${name}.sandbox.json`);
+}
+
+interface SandboxManifestEntry {
+  name: string;
+  description: string;
+  version?: string;
+  inputSchema: MCPToolInputSchema;
+  metadata?: Omit<ToolMetadata, "configSchema">;
+}
+
+const MODULE_EXTENSIONS = [".js", ".mjs", ".cjs"];
+/** Names MCP clients accept for tools */
+export const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export interface DiscoveryLoadError {
+  module: string;
+  message: string;
+}
+
+export interface DiscoveryResult {
+  source: string;
+  registered: string[];
+  errors: DiscoveryLoadError[];
+}
+
+/**
+ * Check whether a module export structurally looks like a ToolCommand
+ */
+function looksLikeTool(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "execute" in value &&
+    typeof value.execute === "function"
+  );
+}
+
+/**
+ * Validate a candidate export, returning a reason when it is not a usable tool
+ */
+export function validateToolCommand(value: unknown): string | undefined {
+  if (!looksLikeTool(value)) {
+    return "export is not a ToolCommand (missing execute function)";
+  }
+  const tool = value as Partial<ToolCommand>;
+  if (typeof tool.name !== "string" || !TOOL_NAME_PATTERN.test(tool.name)) {
+    return `invalid tool name '${String(tool.name)}'`;
+  }
+  if (typeof tool.description !== "string" || tool.description.length === 0) {
+    return `tool '${tool.name}' is missing a description`;
+  }
+  if (typeof tool.schema?.safeParse !== "function") {
+    return `tool '${tool.name}' must provide a zod schema`;
+  }
+  if (
+    tool.version !== undefined &&
+    (typeof tool.version !== "string" || !parseVersion(tool.version))
+  ) {
+    return `tool '${tool.name}' has invalid version '${String(tool.version)}' (expected semver, e.g. 1.2.0)`;
+  }
+  const dependencies = tool.metadata?.dependencies;
+  if (
+    dependencies !== undefined &&
+    (!Array.isArray(dependencies) || dependencies.some((dep) => typeof dep !== "string"))
+  ) {
+    return `tool '${tool.name}' must list its dependencies as tool names`;
+  }
+  try {
+    buildInputSchema(tool as ToolCommand);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return undefined;
+}
+
+/**
+ * Collect ToolCommand-shaped exports: named exports, a default export,
+ * or a default-exported array
+ */
+export function collectToolExports(exports: Record<string, unknown>): unknown[] {
+  const candidates = Object.values(exports).flatMap((value) =>
+    Array.isArray(value) ? value : [value]
+  );
+  return Array.from(new Set(candidates.filter(looksLikeTool)));
+}
+
+export class ToolDiscovery {
+  private readonly registry: ToolRegistry;
+  private readonly eventBus: EventBus;
+
+  constructor(registry: ToolRegistry, eventBusInstance?: EventBus) {
+    this.registry = registry;
+    this.eventBus = eventBusInstance || eventBus;
+  }
+
+  /**
+   * Load every plugin module found directly inside a directory
+   * (files, or subdirectories with an index module)
+   */
+  async discoverDirectory(directory: string): Promise<DiscoveryResult> {
+    const root = path.resolve(directory);
+    const source = `dir:${root}`;
+
+    return this.runDiscovery(source, async () => {
+      if (!fs.existsSync(root)) {
+        throw new Error(`Plugin directory not found: ${root}`);
+      }
+
+      const modules: string[] = [];
+      for (const entry of await fs.promises.readdir(root, { withFileTypes: true })) {
+        const fullPath = path.join(root, entry.name);
+        if (entry.isFile() && MODULE_EXTENSIONS.includes(path.extname(entry.name))) {
+          modules.push(fullPath);
+        } else if (entry.isDirectory()) {
+          const index = MODULE_EXTENSIONS.map((ext) =>
+            path.join(fullPath, `index${ext}`)
+          ).find((candidate) => fs.existsSync(candidate));
+          if (index) modules.push(index);
+        }
+      }
+      return modules.sort();
+    });
+  }
+
+  /**
+   * Load plugins from the dependencies of a project whose package.json
+   * carries the plugin marker field
+   */
+  async discoverPackages(projectRoot: string): Promise<DiscoveryResult> {
+    const root = path.resolve(projectRoot);
+    const source = `npm:${root}`;
+
+    return this.runDiscovery(source, async () => {
+      const manifestPath = path.join(root, "package.json");
+      if (!fs.existsSync(manifestPath)) {
+        return [];
+      }
+
+      const manifest = JSON.parse(await fs.promises.readFile(manifestPath, "utf-8"));
+      const dependencies = Object.keys({
+        ...manifest.dependencies,
+        ...manifest.devDependencies,
+      });
+
+      const modules: string[] = [];
+      for (const dependency of dependencies) {
+        const packageDir = path.join(root, "node_modules", dependency);
+        const packageManifestPath = path.join(packageDir, "package.json");
+        if (!fs.existsSync(packageManifestPath)) continue;
+
+        const packageManifest = JSON.parse(
+          await fs.promises.readFile(packageManifestPath, "utf-8")
+        );
+        const marker = packageManifest[PLUGIN_PACKAGE_FIELD];
+        if (!marker) continue;
+
+        const entry =
+          typeof marker === "string" ? marker : packageManifest.main || "index.js";
+        modules.push(path.join(packageDir, entry));
+      }
+      return modules;
+    });
+  }
+
+  /**
+   * Shared discovery flow: emit start, load modules, register tools,
+   * and report load errors on completion
+   */
+  private async runDiscovery(
+    source: string,
+    findModules: () => Promise<string[]>
+  ): Promise<DiscoveryResult> {
+    const result: DiscoveryResult = { source, registered: [], errors: [] };
+
+    this.eventBus.emit("registry:discovery:start", { source });
+
+    try {
+      const modules = await findModules();
+      const loaded = new Map<ToolCommand, string>();
+      for (const modulePath of modules) {
+        for (const tool of await this.loadModule(modulePath, result)) {
+          loaded.set(tool, modulePath);
+        }
+      }
+      await this.registerInDependencyOrder(loaded, result);
+    } catch (error) {
+      result.errors.push({
+        module: source,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    this.eventBus.emit("registry:discovery:complete", {
+      source,
+      discovered: result.registered.length,
+      errors: result.errors.length,
+      loadErrors: result.errors,
+    });
+
+    for (const loadError of result.errors) {
+      console.error(`⚠️ Plugin load error (${loadError.module}): ${loadError.message}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Register loaded tools so dependencies (possibly from other modules) come
+   * first; cycles and missing dependencies are reported as load errors
+   */
+  private async registerInDependencyOrder(
+    loaded: Map<ToolCommand, string>,
+    result: DiscoveryResult
+  ): Promise<void> {
+    const tools = Array.from(loaded.keys());
+    const { order, errors } = this.registry.resolveLoadOrder(tools);
+
+    for (const { name, message } of errors) {
+      const tool = tools.find((candidate) => candidate.name === name);
+      result.errors.push({ module: tool ? loaded.get(tool)! : result.source, message });
+    }
+
+    for (const tool of order) {
+      const modulePath = loaded.get(tool)!;
+      try {
+        await this.registry.register(tool, modulePath);
+        result.registered.push(tool.name);
+      } catch (error) {
+        result.errors.push({
+          module: modulePath,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Import a module and collect every valid ToolCommand it exports.
+   * Modules with a sandbox manifest are described by it instead.
+   */
+  private async loadModule(modulePath: string, result: DiscoveryResult): Promise<ToolCommand[]> {
+    const manifestPath = sandboxManifestPath(modulePath);
+    if (fs.existsSync(manifestPath)) {
+      return this.loadSandboxManifest(modulePath, manifestPath, result);
+    }
+
+    let exports: Record<string, unknown>;
+    try {
+      exports = await import(pathToFileURL(modulePath).href);
+    } catch (error) {
+      result.errors.push({
+        module: modulePath,
+        message: `Failed to import: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      return [];
+    }
+
+    const candidates = collectToolExports(exports);
+
+    if (candidates.length === 0) {
+      result.errors.push({ module: modulePath, message: "No ToolCommand exports found" });
+      return [];
+    }
+
+    const tools: ToolCommand[] = [];
+    for (const candidate of candidates) {
+      const problem = validateToolCommand(candidate);
+      if (problem) {
+        result.errors.push({ module: modulePath, message: problem });
+        continue;
+      }
+      if ((candidate as ToolCommand).metadata?.constraints?.requiresSandbox) {
+        result.errors.push({
+          module: modulePath,
+          message: `tool '${(candidate as ToolCommand).name}' requires a sandbox; declare it in ${manifestPath} so the module is not imported in the main process`,
+        });
+        continue;
+      }
+      tools.push(candidate as unknown as ToolCommand);
+    }
+    return tools;
+  }
+
+  /**
+   * Build sandboxed tools from a manifest without importing the module.
+   * Arguments are validated by the real zod schema inside the worker.
+   */
+  private async loadSandboxManifest(
+    modulePath: string,
+    manifestPath: string,
+    result: DiscoveryResult
+  ): Promise<ToolCommand[]> {
+    let entries: SandboxManifestEntry[];
+    try {
+      const manifest = JSON.parse(await fs.promises.readFile(manifestPath, "utf-8"));
+      if (!Array.isArray(manifest.tools)) {
+        throw new Error("expected a tools array");
+      }
+      entries = manifest.tools;
+    } catch (error) {
+      result.errors.push({
+        module: manifestPath,
+        message: `Invalid sandbox manifest: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      return [];
+    }
+
+    const tools: ToolCommand[] = [];
+    for (const entry of entries) {
+      const tool: ToolCommand = {
+        name: entry.name,
+        description: entry.description,
+        version: entry.version,
+        schema: z.object({}).passthrough(),
+        inputSchema: entry.inputSchema,
+        metadata: {
+          ...entry.metadata,
+          constraints: { ...entry.metadata?.constraints, requiresSandbox: true },
+        },
+        execute: async () => {
+          // The dispatcher always routes sandboxed tools to a worker
+          throw new ToolError(
+            `Tool '${entry.name}' only runs in the sandbox`,
+            "SANDBOX_ERROR",
+            entry.name
+          );
+        },
+      };
+      const problem = validateToolCommand(tool);
+      if (problem) {
+        result.errors.push({ module: manifestPath, message: problem });
+        continue;
+      }
+      tools.push(tool);
+    }
+    return tools;
+  }
+}
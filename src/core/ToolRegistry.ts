@@ -9,33 +9,111 @@ import {
   ToolLifecycle,
   ToolNotFoundError,
   DuplicateToolError,
+  ToolDependencyError,
   ToolError,
   ToolHealthStatus,
 } from "./ToolCommand.js";
+import {
+  compareVersions,
+  parseToolRef,
+  parseVersion,
+  parseVersionAlias,
+  satisfiesRange,
+  selectVersion,
+  toolId,
+  versionAlias,
+} from "./toolVersions.js";
 import { eventBus, type EventBus } from "../infra/eventBus.js";
+import { ExecutionMetrics } from "./ExecutionMetrics.js";
+
+export interface DependencyOptions {
+  /** Also unregister/disable dependents, or enable dependencies, instead of refusing */
+  cascade?: boolean;
+}
+
+export interface UnregisterOptions extends DependencyOptions {
+  /** Remove even while dependents remain (hot reload re-registers right after) */
+  force?: boolean;
+}
 
+export interface LoadOrder {
+  /** Tools in an order where every dependency comes first */
+  order: ToolCommand[];
+  /** Tools left out because of cycles or missing dependencies */
+  errors: Array<{ name: string; message: string }>;
+}
+
+/**
+ * An enabled tool version under the name clients call it by
+ */
+export interface ToolListing {
+  /** The bare name for the default version, the `name_v<major>` or `name_v<version>` alias otherwise */
+  name: string;
+  tool: ToolCommand;
+  /** Set when this version is old or explicitly deprecated */
+  deprecation?: string;
+}
+
+const isEnabled = (registration: ToolRegistration) => registration.enabled;
+
+/**
+ * Tools are keyed by `name@version` (the bare name when unversioned), so
+ * several versions of one tool can be registered side by side. Lookups take
+ * a bare name, which maps to the newest stable version, or `name@range`
+ * ("2", "2.1" or an exact version).
+ */
 export class ToolRegistry {
   private tools = new Map<string, ToolRegistration>();
   private healthCache = new Map<string, ToolHealthStatus>();
   private readonly eventBus: EventBus;
+  private readonly metrics: ExecutionMetrics;
+  private shutdownPromise?: Promise<void>;
 
   constructor(eventBusInstance?: EventBus) {
     this.eventBus = eventBusInstance || eventBus;
+    this.metrics = new ExecutionMetrics(this.eventBus);
 
     // Listen for system events
     this.eventBus.on(
       "system:shutdown",
-      this.handleShutdown.bind(this),
+      () => void this.shutdown(),
       "ToolRegistry"
     );
   }
 
   /**
-   * Register a new tool command
+   * Register a new tool command. Its dependencies must already be registered.
+   * Another version of a registered tool is added alongside it.
    */
   async register(tool: ToolCommand, source: string = "unknown"): Promise<void> {
-    if (this.tools.has(tool.name)) {
-      throw new DuplicateToolError(tool.name);
+    const id = toolId(tool);
+    if (tool.version && !parseVersion(tool.version)) {
+      throw new ToolError(
+        `Tool '${tool.name}' has invalid version '${tool.version}'`,
+        "VALIDATION_ERROR",
+        tool.name,
+        undefined,
+        { retryable: false, remediation: "Use a semantic version such as 1.2.0" }
+      );
+    }
+    // Versions only coexist when every one of them is versioned
+    if (
+      this.tools.has(id) ||
+      this.versionsOf(tool.name).some((reg) => !reg.tool.version || !tool.version)
+    ) {
+      throw new DuplicateToolError(id);
+    }
+
+    const dependencies = tool.metadata?.dependencies ?? [];
+    if (dependencies.some((dependency) => parseToolRef(dependency).name === tool.name)) {
+      throw new ToolDependencyError(tool.name, `Tool '${tool.name}' depends on itself`);
+    }
+    const missing = dependencies.filter((dependency) => !this.findRegistration(dependency));
+    if (missing.length > 0) {
+      throw new ToolDependencyError(
+        tool.name,
+        `Tool '${tool.name}' depends on unregistered tool(s): ${missing.join(", ")}`
+      );
     }
 
     // Create registration record
@@ -60,7 +138,7 @@ export class ToolRegistry {
       }
 
       // Register the tool
-      this.tools.set(tool.name, registration);
+      this.tools.set(id, registration);
 
       // Update lifecycle state
       this.eventBus.emit("tool:lifecycle", {
@@ -75,7 +153,7 @@ export class ToolRegistry {
         source,
       });
 
-      console.error(`✅ Tool '${tool.name}' registered from ${source}`);
+      console.error(`✅ Tool '${id}' registered from ${source}`);
     } catch (error) {
       // Handle registration failure
       this.eventBus.emit("tool:lifecycle", {
@@ -103,60 +181,167 @@ export class ToolRegistry {
   }
 
   /**
-   * Unregister a tool command
+   * Register several tools in dependency order. Throws before registering
+   * anything if there is a cycle or a missing dependency.
+   */
+  async registerAll(tools: ToolCommand[], source: string = "unknown"): Promise<void> {
+    const { order, errors } = this.resolveLoadOrder(tools);
+    if (errors.length > 0) {
+      throw new ToolDependencyError(errors[0].name, errors.map((e) => e.message).join("; "));
+    }
+    for (const tool of order) {
+      await this.register(tool, source);
+    }
+  }
+
+  /**
+   * Topologically sort tools by ToolMetadata.dependencies. Dependencies may be
+   * in the batch or already registered; cycles and missing tools are reported.
+   */
+  resolveLoadOrder(tools: ToolCommand[]): LoadOrder {
+    const batch = tools.map((tool) => ({ tool }));
+    const state = new Map<string, "visiting" | "done" | "failed">();
+    const result: LoadOrder = { order: [], errors: [] };
+
+    const fail = (tool: ToolCommand, message: string) => {
+      state.set(toolId(tool), "failed");
+      result.errors.push({ name: tool.name, message });
+      return false;
+    };
+
+    const visit = (tool: ToolCommand, path: string[]): boolean => {
+      const id = toolId(tool);
+      const current = state.get(id);
+      if (current === "done") return true;
+      if (current === "failed") return false;
+      if (current === "visiting") {
+        const cycle = [...path.slice(path.indexOf(id)), id];
+        return fail(tool, `Dependency cycle: ${cycle.join(" -> ")}`);
+      }
+
+      state.set(id, "visiting");
+      for (const dependency of tool.metadata?.dependencies ?? []) {
+        const { name, range } = parseToolRef(dependency);
+        const batched = selectVersion(
+          batch.filter((candidate) => candidate.tool.name === name),
+          range
+        );
+        if (batched) {
+          if (!visit(batched.tool, [...path, id])) {
+            if (state.get(id) === "failed") return false;
+            return fail(
+              tool,
+              `Tool '${tool.name}' depends on '${dependency}', which could not be loaded`
+            );
+          }
+        } else if (!this.findRegistration(dependency)) {
+          return fail(tool, `Tool '${tool.name}' depends on unregistered tool '${dependency}'`);
+        }
+      }
+
+      state.set(id, "done");
+      result.order.push(tool);
+      return true;
+    };
+
+    tools.forEach((tool) => visit(tool, []));
+    return result;
+  }
+
+  /**
+   * Registered tools with a dependency that `name` satisfies
+   */
+  getDependents(name: string): string[] {
+    const registration = this.findRegistration(name);
+    if (!registration) {
+      return [];
+    }
+    return Array.from(this.tools.values())
+      .filter(
+        (reg) =>
+          reg !== registration &&
+          reg.tool.metadata?.dependencies?.some((dep) => this.satisfies(registration, dep))
+      )
+      .map((reg) => toolId(reg.tool));
+  }
+
+  /**
+   * Unregister a tool command. Refuses while other tools depend on it (and
+   * no other version satisfies them), unless `cascade` (unregister
+   * dependents first) or `force` is set.
    */
-  async unregister(name: string, reason?: string): Promise<boolean> {
-    const registration = this.tools.get(name);
+  async unregister(
+    name: string,
+    reason?: string,
+    options: UnregisterOptions = {}
+  ): Promise<boolean> {
+    const registration = this.findRegistration(name);
     if (!registration) {
       return false;
     }
+    const { tool } = registration;
+    const id = toolId(tool);
+
+    const dependents = this.strandedDependents(registration, () => true);
+    if (dependents.length > 0 && !options.force) {
+      if (!options.cascade) {
+        throw new ToolDependencyError(
+          name,
+          `Cannot unregister '${name}': required by ${dependents.join(", ")}`
+        );
+      }
+      for (const dependent of dependents) {
+        await this.unregister(dependent, `dependency '${id}' unregistered`, options);
+      }
+    }
 
     // Emit lifecycle event
     this.eventBus.emit("tool:lifecycle", {
-      name,
+      name: tool.name,
       state: ToolLifecycle.UNLOADING,
-      metadata: { reason },
+      metadata: { reason, version: tool.version },
     });
 
     try {
       // Call onUnload hook if present
-      if (registration.tool.onUnload) {
-        await registration.tool.onUnload();
+      if (tool.onUnload) {
+        await tool.onUnload();
       }
 
       // Remove from registry
-      this.tools.delete(name);
-      this.healthCache.delete(name);
+      this.tools.delete(id);
+      this.healthCache.delete(id);
 
       // Update lifecycle state
       this.eventBus.emit("tool:lifecycle", {
-        name,
+        name: tool.name,
         state: ToolLifecycle.DISPOSED,
       });
 
       // Emit unregistration event
       this.eventBus.emit("tool:unregistered", {
-        name,
+        name: tool.name,
+        version: tool.version,
         reason,
       });
 
       console.error(
-        `❌ Tool '${name}' unregistered${reason ? `: ${reason}` : ""}`
+        `❌ Tool '${id}' unregistered${reason ? `: ${reason}` : ""}`
       );
       return true;
     } catch (error) {
       // Handle unload failure
       this.eventBus.emit("tool:error", {
-        name,
+        name: tool.name,
         error: error instanceof Error ? error : new Error(String(error)),
       });
 
       // Force removal even if unload fails
-      this.tools.delete(name);
-      this.healthCache.delete(name);
+      this.tools.delete(id);
+      this.healthCache.delete(id);
 
       console.warn(
-        `⚠️ Tool '${name}' forcibly removed due to unload error:`,
+        `⚠️ Tool '${id}' forcibly removed due to unload error:`,
         error
       );
       return true;
@@ -164,29 +349,29 @@ export class ToolRegistry {
   }
 
   /**
-   * Get a registered tool by name
+   * Get an enabled tool by name or `name@range`. When the newest version is
+   * disabled, a bare name falls back to the newest enabled one.
    */
   get(name: string): ToolCommand | undefined {
-    const registration = this.tools.get(name);
-    return registration?.enabled ? registration.tool : undefined;
+    return this.findRegistration(name, isEnabled)?.tool;
   }
 
   /**
    * Get tool registration info
    */
   getRegistration(name: string): ToolRegistration | undefined {
-    return this.tools.get(name);
+    return this.findRegistration(name);
   }
 
   /**
    * Check if a tool is registered
    */
   has(name: string): boolean {
-    return this.tools.has(name);
+    return this.findRegistration(name) !== undefined;
   }
 
   /**
-   * List all registered tools
+   * List all registered tools (every enabled version)
    */
   list(): ToolCommand[] {
     return Array.from(this.tools.values())
@@ -194,6 +379,60 @@ export class ToolRegistry {
       .map((reg) => reg.tool);
   }
 
+  /**
+   * Enabled tools under the names clients call: the default version under
+   * the bare name, and each older major's newest version as `name_v<major>`.
+   * Anything else is listed as `name_v<version>` (e.g. `greet_v1_0_0`).
+   * Calls also accept `name@range`, which isn't a valid MCP tool name.
+   */
+  listCallable(): ToolListing[] {
+    const enabled = Array.from(this.tools.values()).filter(isEnabled);
+    return enabled.map((registration) => {
+      const { tool } = registration;
+      const versions = enabled.filter((reg) => reg.tool.name === tool.name);
+      const major = tool.version ? parseVersion(tool.version)?.major : undefined;
+      const name =
+        selectVersion(versions) === registration
+          ? tool.name
+          : major !== undefined && selectVersion(versions, String(major)) === registration
+          ? versionAlias(tool.name, String(major))
+          : tool.version
+          ? versionAlias(tool.name, tool.version)
+          : tool.name;
+      return { name, tool, deprecation: this.getDeprecation(tool) };
+    });
+  }
+
+  /**
+   * Registered versions of a tool, newest first
+   */
+  getVersions(name: string): ToolRegistration[] {
+    return this.versionsOf(name).sort((a, b) =>
+      compareVersions(b.tool.version, a.tool.version)
+    );
+  }
+
+  /**
+   * Notice for calls to a version older than the default, or one marked
+   * `metadata.deprecated`
+   */
+  getDeprecation(tool: ToolCommand): string | undefined {
+    const current = this.findRegistration(tool.name, isEnabled)?.tool;
+    const replacement =
+      current && current !== tool && compareVersions(current.version, tool.version) > 0
+        ? ` Call '${tool.name}' for version ${current.version}.`
+        : "";
+    const deprecated = tool.metadata?.deprecated;
+    if (typeof deprecated === "string") {
+      return deprecated;
+    }
+    if (deprecated || replacement) {
+      const label = tool.version ? `'${tool.name}' version ${tool.version}` : `'${tool.name}'`;
+      return `Tool ${label} is deprecated.${replacement}`;
+    }
+    return undefined;
+  }
+
   /**
    * List all tool registrations (including disabled)
    */
@@ -202,10 +441,10 @@ export class ToolRegistry {
   }
 
   /**
-   * Get tool names only
+   * Get tool names only (one entry per tool, however many versions)
    */
   getToolNames(): string[] {
-    return Array.from(this.tools.keys());
+    return Array.from(new Set(Array.from(this.tools.values(), (reg) => reg.tool.name)));
   }
 
   /**
@@ -217,10 +456,17 @@ export class ToolRegistry {
     disabledTools: number;
     categories: Record<string, number>;
     sources: Record<string, number>;
+    dependencies: Record<
+      string,
+      { dependsOn: string[]; requiredBy: string[]; satisfied: boolean }
+    >;
+    versions: Record<string, string[]>;
   } {
     const registrations = Array.from(this.tools.values());
     const categories: Record<string, number> = {};
     const sources: Record<string, number> = {};
+    const dependencies: ReturnType<ToolRegistry["getStats"]>["dependencies"] = {};
+    const versions: Record<string, string[]> = {};
 
     registrations.forEach((reg) => {
       // Count categories
@@ -229,35 +475,136 @@ export class ToolRegistry {
 
       // Count sources
       sources[reg.source] = (sources[reg.source] || 0) + 1;
+
+      // Only tools that take part in a dependency are listed
+      const id = toolId(reg.tool);
+      const dependsOn = reg.tool.metadata?.dependencies ?? [];
+      const requiredBy = this.getDependents(id);
+      if (dependsOn.length > 0 || requiredBy.length > 0) {
+        dependencies[id] = {
+          dependsOn,
+          requiredBy,
+          satisfied: dependsOn.every((dep) => this.findRegistration(dep, isEnabled)),
+        };
+      }
     });
 
+    // Only tools registered in more than one version are listed
+    for (const name of this.getToolNames()) {
+      const registered = this.getVersions(name);
+      if (registered.length > 1) {
+        versions[name] = registered.map((reg) => reg.tool.version!);
+      }
+    }
+
     return {
       totalTools: registrations.length,
       enabledTools: registrations.filter((r) => r.enabled).length,
       disabledTools: registrations.filter((r) => !r.enabled).length,
       categories,
       sources,
+      dependencies,
+      versions,
     };
   }
 
   /**
-   * Enable/disable a tool
+   * Execution metrics recorded from this registry's event bus
+   */
+  getExecutionMetrics(): ExecutionMetrics {
+    return this.metrics;
+  }
+
+  /**
+   * Enable/disable a tool. Disabling refuses while enabled tools depend on
+   * it (and no other enabled version satisfies them) and enabling refuses
+   * while a dependency is disabled, unless `cascade` disables the
+   * dependents or enables the dependencies too.
    */
-  setEnabled(name: string, enabled: boolean): boolean {
-    const registration = this.tools.get(name);
+  setEnabled(
+    name: string,
+    enabled: boolean,
+    options: DependencyOptions = {}
+  ): boolean {
+    const registration = this.findRegistration(name);
     if (!registration) {
       return false;
     }
+    if (registration.enabled === enabled) {
+      return true;
+    }
+
+    if (enabled) {
+      // Dependencies can be gone, e.g. unregistered with force
+      const missing = (registration.tool.metadata?.dependencies ?? []).filter(
+        (dep) => !this.findRegistration(dep)
+      );
+      if (missing.length > 0) {
+        throw new ToolDependencyError(
+          name,
+          `Cannot enable '${name}': dependencies ${missing.join(", ")} are not registered`
+        );
+      }
+    }
+
+    const blockers = enabled
+      ? (registration.tool.metadata?.dependencies ?? [])
+          .filter((dep) => !this.findRegistration(dep, isEnabled))
+          .map((dep) => toolId(this.findRegistration(dep)!.tool))
+      : this.strandedDependents(registration, isEnabled);
+    if (blockers.length > 0) {
+      if (!options.cascade) {
+        throw new ToolDependencyError(
+          name,
+          enabled
+            ? `Cannot enable '${name}': dependencies ${blockers.join(", ")} are disabled`
+            : `Cannot disable '${name}': required by ${blockers.join(", ")}`
+        );
+      }
+      blockers.forEach((blocker) => this.setEnabled(blocker, enabled, options));
+    }
+
+    this.applyEnabled(registration, enabled);
+    return true;
+  }
+
+  /**
+   * setEnabled for several tools as one change: when one of them is
+   * refused, the tools already toggled are switched back before the error
+   * is rethrown
+   */
+  setEnabledAll(names: string[], enabled: boolean, options: DependencyOptions = {}): void {
+    const before = new Map(
+      Array.from(this.tools.values()).map((registration) => [registration, registration.enabled])
+    );
+    try {
+      for (const name of names) {
+        this.setEnabled(name, enabled, options);
+      }
+    } catch (error) {
+      for (const [registration, wasEnabled] of before) {
+        if (this.tools.get(toolId(registration.tool)) === registration && registration.enabled !== wasEnabled) {
+          this.applyEnabled(registration, wasEnabled);
+        }
+      }
+      throw error;
+    }
+  }
 
+  private applyEnabled(registration: ToolRegistration, enabled: boolean): void {
     registration.enabled = enabled;
 
     this.eventBus.emit("tool:lifecycle", {
-      name,
+      name: registration.tool.name,
       state: enabled ? ToolLifecycle.READY : ToolLifecycle.DISPOSED,
-      metadata: { enabled },
+      metadata: { enabled, version: registration.tool.version },
     });
 
-    return true;
+    // Lets servers send notifications/tools/list_changed
+    this.eventBus.emit(enabled ? "tool:enabled" : "tool:disabled", {
+      name: registration.tool.name,
+      version: registration.tool.version,
+    });
   }
 
   /**
@@ -267,14 +614,15 @@ export class ToolRegistry {
     name: string,
     useCache: boolean = true
   ): Promise<ToolHealthStatus> {
-    const registration = this.tools.get(name);
+    const registration = this.findRegistration(name);
     if (!registration) {
       throw new ToolNotFoundError(name);
     }
+    const id = toolId(registration.tool);
 
     // Check cache first
     if (useCache) {
-      const cached = this.healthCache.get(name);
+      const cached = this.healthCache.get(id);
       if (cached && Date.now() - cached.lastChecked < 30000) {
         // 30 second cache
         return cached;
@@ -299,12 +647,29 @@ export class ToolRegistry {
       };
     }
 
+    // Attach execution metrics recorded for this tool (across its versions)
+    const metrics = this.metrics.getToolMetrics(registration.tool.name);
+    if (metrics) {
+      healthStatus = {
+        ...healthStatus,
+        metrics: {
+          executionCount: metrics.executionCount,
+          averageExecutionTime: metrics.averageExecutionTime,
+          errorRate: metrics.errorRate,
+          p50ExecutionTime: metrics.p50ExecutionTime,
+          p95ExecutionTime: metrics.p95ExecutionTime,
+          p99ExecutionTime: metrics.p99ExecutionTime,
+          errorsByCode: metrics.errorsByCode,
+        },
+      };
+    }
+
     // Cache result
-    this.healthCache.set(name, healthStatus);
+    this.healthCache.set(id, healthStatus);
 
     // Emit health event
     this.eventBus.emit("tool:health", {
-      name,
+      name: registration.tool.name,
       status: healthStatus,
     });
 
@@ -312,11 +677,11 @@ export class ToolRegistry {
   }
 
   /**
-   * Check health of all tools
+   * Check health of all tools, keyed by registry id (`name@version`)
    */
   async checkAllHealth(): Promise<Record<string, ToolHealthStatus>> {
     const results: Record<string, ToolHealthStatus> = {};
-    const names = this.getToolNames();
+    const names = Array.from(this.tools.keys());
 
     await Promise.allSettled(
       names.map(async (name) => {
@@ -336,23 +701,88 @@ export class ToolRegistry {
   }
 
   /**
-   * Clear all tools (for testing or shutdown)
+   * Clear all tools (for testing or shutdown). Dependents are unloaded
+   * before the tools they depend on.
    */
   async clear(): Promise<void> {
-    const names = Array.from(this.tools.keys());
+    const tools = Array.from(this.tools.values()).map((reg) => reg.tool);
+    const { order } = this.resolveLoadOrder(tools);
+    const ordered = new Set([...order].reverse().map(toolId));
+    // Anything left out of the order (a forced removal broke a dependency) goes last
+    tools.forEach((tool) => ordered.add(toolId(tool)));
+
+    for (const name of ordered) {
+      await this.unregister(name, "registry cleared", { force: true });
+    }
+  }
 
-    await Promise.allSettled(
-      names.map((name) => this.unregister(name, "registry cleared"))
+  /**
+   * Handle system shutdown. Runs once; later calls (and the system:shutdown
+   * listener) share the same run, so callers can await tool unloading.
+   */
+  shutdown(): Promise<void> {
+    this.shutdownPromise ??= (async () => {
+      console.error("🔄 ToolRegistry: Shutting down, unregistering all tools...");
+      await this.clear();
+      console.error("✅ ToolRegistry: Shutdown complete");
+    })();
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Resolve a registry id, bare name or `name@range` to a registration,
+   * considering only those `include` accepts
+   */
+  private findRegistration(
+    ref: string,
+    include: (registration: ToolRegistration) => boolean = () => true
+  ): ToolRegistration | undefined {
+    const exact = this.tools.get(ref);
+    if (exact && include(exact)) {
+      return exact;
+    }
+    const { name, range } = parseToolRef(ref);
+    const found = selectVersion(this.versionsOf(name).filter(include), range);
+    if (found) {
+      return found;
+    }
+    const alias = parseVersionAlias(ref);
+    return alias && selectVersion(this.versionsOf(alias.name).filter(include), alias.range);
+  }
+
+  private versionsOf(name: string): ToolRegistration[] {
+    return Array.from(this.tools.values()).filter((reg) => reg.tool.name === name);
+  }
+
+  /**
+   * Whether a registration matches a dependency reference
+   */
+  private satisfies(registration: ToolRegistration, dependency: string): boolean {
+    const { name, range } = parseToolRef(dependency);
+    return (
+      registration.tool.name === name &&
+      (range === undefined || satisfiesRange(registration.tool.version, range))
     );
   }
 
   /**
-   * Handle system shutdown
+   * Dependents (among those `include` accepts) left without any version to
+   * satisfy them once `registration` is gone
    */
-  private async handleShutdown(): Promise<void> {
-    console.error("🔄 ToolRegistry: Shutting down, unregistering all tools...");
-    await this.clear();
-    console.error("✅ ToolRegistry: Shutdown complete");
+  private strandedDependents(
+    registration: ToolRegistration,
+    include: (registration: ToolRegistration) => boolean
+  ): string[] {
+    const others = (reg: ToolRegistration) => reg !== registration && include(reg);
+    return Array.from(this.tools.values())
+      .filter(
+        (reg) =>
+          others(reg) &&
+          reg.tool.metadata?.dependencies?.some(
+            (dep) => this.satisfies(registration, dep) && !this.findRegistration(dep, others)
+          )
+      )
+      .map((reg) => toolId(reg.tool));
   }
 
   /**
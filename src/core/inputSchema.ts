@@ -0,0 +1,37 @@
+/**
+ * Input schema generation - derives the JSON Schema advertised via ListTools
+ * from each tool's zod schema so validation and discovery never drift apart
+ */
+
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { ToolCommand, MCPToolInputSchema } from "./ToolCommand.js";
+
+/**
+ * Build the MCP inputSchema for a tool from its zod schema
+ */
+export function buildInputSchema(tool: ToolCommand): MCPToolInputSchema {
+  if (tool.inputSchema) {
+    if (tool.inputSchema.type !== "object") {
+      throw new Error(`Tool '${tool.name}' inputSchema must have type "object"`);
+    }
+    return tool.inputSchema;
+  }
+
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(tool.schema, {
+    target: "jsonSchema7",
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+
+  if (jsonSchema.type !== "object") {
+    throw new Error(
+      `Tool '${tool.name}' schema must be a zod object to be advertised via MCP`
+    );
+  }
+
+  return {
+    ...jsonSchema,
+    type: "object",
+    properties: (jsonSchema.properties as Record<string, unknown>) ?? {},
+    required: (jsonSchema.required as string[]) ?? [],
+  };
+}
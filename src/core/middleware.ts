@@ -0,0 +1,124 @@
+/**
+ * Middleware pipeline for CommandDispatcher
+ * Cross-cutting behavior (logging, redaction, caching, auth, rate limiting)
+ * wraps tool execution instead of living in each run*Tool function
+ */
+
+import type { CommandContext, ToolCommand } from './ToolCommand.js';
+
+/**
+ * What a middleware sees for one tool call
+ */
+export interface MiddlewareInvocation {
+  readonly tool: ToolCommand;
+  /** Validated arguments; middleware may replace them before the tool runs */
+  args: unknown;
+  readonly context: CommandContext;
+}
+
+/**
+ * Returned from `before` to skip the tool (and inner middleware) entirely
+ */
+export interface MiddlewareShortCircuit {
+  result: unknown;
+}
+
+export interface ToolMiddleware {
+  /** Identifier used in errors and when skipping via tool tags */
+  name: string;
+  /** Only run for tools tagged with at least one of these; all tools when omitted */
+  tags?: string[];
+  /** Never run for tools tagged with any of these */
+  excludeTags?: string[];
+  /** Runs before the tool; return `{ result }` to short-circuit */
+  before?: (
+    invocation: MiddlewareInvocation
+  ) => void | MiddlewareShortCircuit | Promise<void | MiddlewareShortCircuit>;
+  /** Wraps the rest of the chain; call `next()` at most once */
+  around?: (
+    invocation: MiddlewareInvocation,
+    next: () => Promise<unknown>
+  ) => Promise<unknown>;
+  /** Runs after success; return a value to replace the result */
+  after?: (invocation: MiddlewareInvocation, result: unknown) => unknown | Promise<unknown>;
+  /** Runs on failure; return a value to recover, or undefined to rethrow */
+  onError?: (invocation: MiddlewareInvocation, error: unknown) => unknown | Promise<unknown>;
+}
+
+/**
+ * Tool tag that opts a single tool out of a named middleware
+ */
+export function skipMiddlewareTag(name: string): string {
+  return `middleware:skip:${name}`;
+}
+
+/**
+ * Whether a middleware applies to a tool, based on ToolMetadata.tags
+ */
+export function middlewareAppliesTo(middleware: ToolMiddleware, tool: ToolCommand): boolean {
+  const tags = tool.metadata?.tags ?? [];
+
+  if (tags.includes(skipMiddlewareTag(middleware.name))) {
+    return false;
+  }
+  if (middleware.excludeTags?.some((tag) => tags.includes(tag))) {
+    return false;
+  }
+  if (middleware.tags && !middleware.tags.some((tag) => tags.includes(tag))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Run the applicable middleware around `execute`. The first middleware is
+ * the outermost: its `before` runs first and its `after` runs last.
+ */
+export function runMiddleware(
+  middleware: readonly ToolMiddleware[],
+  invocation: MiddlewareInvocation,
+  execute: (args: unknown) => Promise<unknown>
+): Promise<unknown> {
+  const chain = middleware.filter((m) => middlewareAppliesTo(m, invocation.tool));
+
+  const dispatch = (index: number): Promise<unknown> =>
+    index === chain.length
+      ? execute(invocation.args)
+      : runOne(chain[index], invocation, () => dispatch(index + 1));
+
+  return dispatch(0);
+}
+
+async function runOne(
+  middleware: ToolMiddleware,
+  invocation: MiddlewareInvocation,
+  next: () => Promise<unknown>
+): Promise<unknown> {
+  const shortCircuit = await middleware.before?.(invocation);
+  if (shortCircuit) {
+    return shortCircuit.result;
+  }
+
+  let called = false;
+  const nextOnce = () => {
+    if (called) {
+      return Promise.reject(new Error(`Middleware '${middleware.name}' called next() more than once`));
+    }
+    called = true;
+    return next();
+  };
+
+  let result: unknown;
+  try {
+    result = middleware.around ? await middleware.around(invocation, nextOnce) : await nextOnce();
+  } catch (error) {
+    const recovered = await middleware.onError?.(invocation, error);
+    if (recovered === undefined) {
+      throw error;
+    }
+    return recovered;
+  }
+
+  const replaced = await middleware.after?.(invocation, result);
+  return replaced === undefined ? result : replaced;
+}
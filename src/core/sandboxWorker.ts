@@ -0,0 +1,233 @@
+/**
+ * Sandbox worker - runs a single ToolCommand execution in a worker thread.
+ * Before the tool module is loaded, filesystem access is confined to an
+ * allowlisted root and child processes are blocked; while it loads, the
+ * module's own directory and node_modules lookup paths are readable too.
+ *
+ * The confinement patches the public fs and child_process APIs, so it is
+ * best-effort isolation against accidents, not a security boundary: native
+ * addons, process.binding, worker_threads or fetch are not covered. Run
+ * untrusted plugins in a container or VM.
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import childProcess from "child_process";
+import fs from "fs";
+import { createRequire, syncBuiltinESMExports } from "module";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+
+import type { CommandContext, ToolCommand } from "./ToolCommand.js";
+import { collectToolExports } from "./ToolDiscovery.js";
+import { EventBusClass } from "../infra/eventBus.js";
+
+export interface SandboxWorkerData {
+  modulePath: string;
+  toolName: string;
+  args: unknown;
+  config?: Record<string, any>;
+  requestId?: string;
+  allowedRoot: string;
+  /** Parse args with the tool's schema; the main thread only had a placeholder */
+  validateArgs?: boolean;
+}
+
+export type SandboxWorkerMessage =
+  | { type: "progress"; update: { message: string; progress?: number; total?: number } }
+  | { type: "result"; result: unknown }
+  | {
+      type: "error";
+      error: { name: string; message: string; code?: string; retryable?: boolean; remediation?: string };
+    };
+
+export const SANDBOX_VIOLATION = "SANDBOX_VIOLATION";
+
+const SINGLE_PATH_FUNCTIONS = [
+  "access", "appendFile", "chmod", "chown", "createReadStream", "createWriteStream",
+  "exists", "lstat", "mkdir", "mkdtemp", "open", "opendir", "readdir", "readFile",
+  "readlink", "realpath", "rm", "rmdir", "stat", "truncate", "unlink", "utimes",
+  "watch", "writeFile",
+];
+const DUAL_PATH_FUNCTIONS = ["copyFile", "cp", "link", "rename", "symlink"];
+const READ_FUNCTIONS = new Set([
+  "access", "createReadStream", "exists", "lstat", "opendir", "readdir", "readFile",
+  "readlink", "realpath", "stat", "watch",
+]);
+const WRITE_FLAGS =
+  fs.constants.O_WRONLY | fs.constants.O_RDWR | fs.constants.O_APPEND |
+  fs.constants.O_CREAT | fs.constants.O_TRUNC;
+const PROCESS_FUNCTIONS = [
+  "exec", "execFile", "execFileSync", "execSync", "fork", "spawn", "spawnSync",
+];
+
+function violation(message: string): Error {
+  return Object.assign(new Error(message), { code: SANDBOX_VIOLATION });
+}
+
+/**
+ * Resolve a path argument, following symlinks for the part that exists
+ */
+function resolveTarget(
+  target: unknown,
+  exists: (p: string) => boolean,
+  realpath: (p: string) => string
+): string | undefined {
+  if (typeof target === "number") return undefined; // file descriptor
+  const raw =
+    target instanceof URL ? fileURLToPath(target)
+    : Buffer.isBuffer(target) ? target.toString()
+    : String(target);
+
+  let resolved = path.resolve(raw);
+  let suffix = "";
+  while (!exists(resolved)) {
+    const parent = path.dirname(resolved);
+    if (parent === resolved) break;
+    suffix = path.join(path.basename(resolved), suffix);
+    resolved = parent;
+  }
+  try {
+    resolved = realpath(resolved);
+  } catch {
+    // Fall back to the lexical path
+  }
+  return path.join(resolved, suffix);
+}
+
+function isWrite(name: string, args: any[]): boolean {
+  if (name !== "open") return !READ_FUNCTIONS.has(name);
+  const flags = args[1];
+  if (typeof flags === "number") return (flags & WRITE_FLAGS) !== 0;
+  return typeof flags === "string" && /[wa+]/.test(flags);
+}
+
+/**
+ * Wrap fs (callback, sync and promise APIs) so every path must stay under
+ * root. Paths under `readRoots` may also be read until the returned
+ * function is called.
+ */
+function confineFilesystem(allowedRoot: string, readRoots: string[]): () => void {
+  // Keep the unwrapped functions; the wrappers below rely on them
+  const exists = fs.existsSync;
+  const realpath = fs.realpathSync.native;
+  const root = realpath(path.resolve(allowedRoot));
+  let readable = readRoots
+    .filter((dir) => exists(dir))
+    .map((dir) => realpath(path.resolve(dir)));
+
+  const within = (resolved: string, dir: string) =>
+    resolved === dir || resolved.startsWith(dir + path.sep);
+
+  const check = (target: unknown, write: boolean) => {
+    const resolved = resolveTarget(target, exists, realpath);
+    if (!resolved || within(resolved, root)) return;
+    if (!write && readable.some((dir) => within(resolved, dir))) return;
+    throw violation(`Filesystem access outside sandbox root ${root}: ${resolved}`);
+  };
+
+  const guard = (target: any, name: string, pathArgs: number) => {
+    const original = target[name];
+    if (typeof original !== "function") return;
+    const baseName = name.replace(/Sync$/, "");
+    target[name] = function (this: unknown, ...args: any[]) {
+      const write = isWrite(baseName, args);
+      for (let i = 0; i < pathArgs; i++) check(args[i], write);
+      return original.apply(this, args);
+    };
+  };
+
+  for (const name of SINGLE_PATH_FUNCTIONS) {
+    guard(fs, name, 1);
+    guard(fs, `${name}Sync`, 1);
+    guard(fs.promises, name, 1);
+  }
+  for (const name of DUAL_PATH_FUNCTIONS) {
+    guard(fs, name, 2);
+    guard(fs, `${name}Sync`, 2);
+    guard(fs.promises, name, 2);
+  }
+
+  return () => {
+    readable = [];
+  };
+}
+
+function blockChildProcesses(): void {
+  for (const name of PROCESS_FUNCTIONS) {
+    (childProcess as Record<string, unknown>)[name] = () => {
+      throw violation(`child_process.${name} is not allowed in the sandbox`);
+    };
+  }
+}
+
+async function run(data: SandboxWorkerData): Promise<unknown> {
+  // Confine before importing so module top-level code runs confined too.
+  // The loader still has to read the module and the packages it imports.
+  const moduleDir = path.dirname(data.modulePath);
+  const endLoading = confineFilesystem(data.allowedRoot, [
+    moduleDir,
+    ...(createRequire(data.modulePath).resolve.paths("") ?? []),
+  ]);
+  blockChildProcesses();
+  // Make `import { readFileSync } from "fs"` see the wrapped functions too.
+  // Bun has no live builtin bindings, so there only default imports are covered.
+  syncBuiltinESMExports();
+
+  let exports: Record<string, unknown>;
+  try {
+    exports = await import(pathToFileURL(data.modulePath).href);
+  } finally {
+    endLoading();
+  }
+  const tool = collectToolExports(exports).find(
+    (candidate) => (candidate as ToolCommand).name === data.toolName
+  ) as ToolCommand | undefined;
+  if (!tool) {
+    throw new Error(`Module ${data.modulePath} does not export tool '${data.toolName}'`);
+  }
+
+  let args = data.args;
+  if (data.validateArgs) {
+    const parsed = tool.schema.safeParse(args);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ");
+      throw Object.assign(
+        new Error(`Validation failed for tool '${tool.name}': Invalid arguments: ${issues}`),
+        { code: "VALIDATION_ERROR", retryable: false }
+      );
+    }
+    args = parsed.data;
+  }
+
+  const context: CommandContext = {
+    eventBus: new EventBusClass(),
+    requestId: data.requestId,
+    startTime: Date.now(),
+    config: data.config,
+    progress: (update) => post({ type: "progress", update }),
+  };
+  return tool.execute(args, context);
+}
+
+function post(message: SandboxWorkerMessage): void {
+  parentPort?.postMessage(message);
+}
+
+if (parentPort) {
+  run(workerData as SandboxWorkerData).then(
+    (result) => post({ type: "result", result }),
+    (error) =>
+      post({
+        type: "error",
+        error: {
+          name: error?.name ?? "Error",
+          message: error instanceof Error ? error.message : String(error),
+          code: typeof error?.code === "string" ? error.code : undefined,
+          retryable: typeof error?.retryable === "boolean" ? error.retryable : undefined,
+          remediation: typeof error?.remediation === "string" ? error.remediation : undefined,
+        },
+      })
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * Tool versions - semver helpers for keeping several versions of a tool
+ * registered side by side and resolving `name` / `name@range` references
+ */
+
+import type { ToolCommand } from "./ToolCommand.js";
+
+interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const SEMVER_PATTERN =
+  /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/** A partial version used as a range: "2" or "2.1" */
+const PARTIAL_PATTERN = /^v?(\d+)(?:\.(\d+))?$/;
+
+export function parseVersion(version: string): SemVer | undefined {
+  const match = SEMVER_PATTERN.exec(version);
+  if (!match) return undefined;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4]?.split(".") ?? [],
+  };
+}
+
+/**
+ * Unversioned tools count as stable; prereleases (1.0.0-beta) do not
+ */
+export function isStableVersion(version?: string): boolean {
+  return version === undefined || parseVersion(version)?.prerelease.length === 0;
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release sorts after its prereleases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const [x, y] = [a[i], b[i]];
+    if (x === y) continue;
+    const [nx, ny] = [Number(x), Number(y)];
+    if (Number.isInteger(nx) && Number.isInteger(ny)) return nx - ny;
+    if (Number.isInteger(nx)) return -1;
+    if (Number.isInteger(ny)) return 1;
+    return x < y ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Semver ordering; missing versions sort first
+ */
+export function compareVersions(a?: string, b?: string): number {
+  const [x, y] = [a && parseVersion(a), b && parseVersion(b)];
+  if (!x || !y) return Number(Boolean(x)) - Number(Boolean(y));
+  return (
+    x.major - y.major ||
+    x.minor - y.minor ||
+    x.patch - y.patch ||
+    comparePrerelease(x.prerelease, y.prerelease)
+  );
+}
+
+/**
+ * Registry key of a tool: `name@version`, or the bare name when unversioned
+ */
+export function toolId(tool: Pick<ToolCommand, "name" | "version">): string {
+  return tool.version ? `${tool.name}@${tool.version}` : tool.name;
+}
+
+export interface ToolRef {
+  name: string;
+  /** "2", "2.1" or an exact version; absent for a bare name */
+  range?: string;
+}
+
+/**
+ * Split `name@range`; a bare name has no range
+ */
+export function parseToolRef(ref: string): ToolRef {
+  const at = ref.indexOf("@", 1);
+  return at === -1
+    ? { name: ref }
+    : { name: ref.slice(0, at), range: ref.slice(at + 1) };
+}
+
+/**
+ * MCP tool names may only use [a-zA-Z0-9_-], so versions are advertised as
+ * aliases: `name_v1` for `name@1`, `name_v1_2_0` for `name@1.2.0`
+ */
+export function versionAlias(name: string, range: string): string {
+  return `${name}_v${range.replace(/\+.*$/, "").replace(/\./g, "_")}`;
+}
+
+const ALIAS_PATTERN = /^(.+)_v(\d+(?:_\d+){0,2}(?:-[0-9A-Za-z_-]+)?)$/;
+
+/**
+ * Turn a `name_v1_2_0` alias back into a reference; undefined for other names
+ */
+export function parseVersionAlias(ref: string): ToolRef | undefined {
+  const match = ALIAS_PATTERN.exec(ref);
+  return match ? { name: match[1], range: match[2].replace(/_/g, ".") } : undefined;
+}
+
+/**
+ * Whether `version` matches a range: "2" (any 2.x.x), "2.1" (any 2.1.x) or
+ * an exact version
+ */
+export function satisfiesRange(version: string | undefined, range: string): boolean {
+  if (!version) return false;
+  const parsed = parseVersion(version);
+  if (parseVersion(range)) {
+    return parsed ? compareVersions(version, range) === 0 : version === range;
+  }
+  const partial = PARTIAL_PATTERN.exec(range);
+  if (!parsed || !partial) return false;
+  return (
+    parsed.major === Number(partial[1]) &&
+    (partial[2] === undefined || parsed.minor === Number(partial[2]))
+  );
+}
+
+/**
+ * Pick the version a reference resolves to: the newest stable version that
+ * matches the range (or any version, for a bare name), falling back to the
+ * newest prerelease when nothing stable matches
+ */
+export function selectVersion<T extends { tool: ToolCommand }>(
+  candidates: T[],
+  range?: string
+): T | undefined {
+  const matching = candidates
+    .filter((candidate) => range === undefined || satisfiesRange(candidate.tool.version, range))
+    .sort((a, b) => compareVersions(b.tool.version, a.tool.version));
+  return matching.find((candidate) => isStableVersion(candidate.tool.version)) ?? matching[0];
+}
@@ -1,66 +1,32 @@
 #!/usr/bin/env node
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import path from "path";
+import { fileURLToPath } from "url";
+
+import { toolRegistry } from "./core/ToolRegistry.js";
+import { eventBus } from "./infra/eventBus.js";
+import { CommandDispatcher } from "./core/CommandDispatcher.js";
+import { builtinTools } from "./tools/index.js";
+import { createServerStatusTool } from "./tools/serverStatus.js";
+import { createToolAdminTool } from "./tools/toolAdmin.js";
+import { createMcpServer, SERVER_VERSION } from "./server.js";
+import { HttpTransportHost } from "./infra/httpTransport.js";
+import { resolveTransportConfig } from "./common/transportConfig.js";
+import { ToolDiscovery } from "./core/ToolDiscovery.js";
+import { HotReloader } from "./core/HotReloader.js";
+import { GracefulShutdown } from "./infra/shutdown.js";
+import { EventLogSink } from "./infra/eventLog.js";
+import { JsonFileExporter, OtlpHttpExporter, tracer } from "./infra/tracing.js";
+import { rateLimiter } from "./core/RateLimiter.js";
+import { ResultStore } from "./core/ResultStore.js";
+import { resolvePluginConfig } from "./common/pluginConfig.js";
 import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
-
-import {
-  screenshotToolName,
-  screenshotToolDescription,
-  ScreenshotToolSchema,
-  runScreenshotTool,
-} from "./tools/screenshot.js";
-
-import {
-  architectToolName,
-  architectToolDescription,
-  ArchitectToolSchema,
-  runArchitectTool,
-} from "./tools/architect.js";
-
-import {
-  codeReviewToolName,
-  codeReviewToolDescription,
-  CodeReviewToolSchema,
-  runCodeReviewTool,
-} from "./tools/codeReview.js";
-
-import {
-  codeAdviceToolName,
-  codeAdviceToolDescription,
-  CodeAdviceToolSchema,
-  runCodeAdviceTool,
-} from "./tools/codeadvice.js";
-
-import {
-  researcherToolName,
-  researcherToolDescription,
-  ResearcherToolSchema,
-  runResearcherTool,
-} from "./tools/researcher.js";
-
-import {
-  personaToolName,
-  personaToolDescription,
-  PersonaToolSchema,
-  runPersonaTool,
-} from "./tools/persona.js";
-
-import {
-  askToolName,
-  askToolDescription,
-  AskToolSchema,
-  runAskTool,
-} from "./tools/ask.js";
-
-import {
-  discoverToolName,
-  discoverToolDescription,
-  DiscoverToolSchema,
-  runDiscoverTool,
-} from "./tools/discover.js";
+  ConfigError,
+  loadServerConfig,
+  resolveDisabledTools,
+  resolveToolConfigs,
+} from "./common/serverConfig.js";
+import { configureProviders } from "./common/providerConfig.js";
 
 // Import personas to auto-register
 import "./personas/charles/index.js";
@@ -82,321 +48,165 @@ import "./personas/iris/index.js";
  *   6) Persona (Direct access)
  *   7) Ask (Smart routing)
  *   8) Discover (List personas)
+ *   9) Server Status (Diagnostics)
+ *  10) Tool Admin (Enable/disable tools at runtime)
+ *
+ * Tools are ToolCommand implementations held in the ToolRegistry and
+ * dispatched through the CommandDispatcher. Third-party tools are loaded
+ * from plugin directories and marked npm packages. Settings come from the
+ * user config file, the project's `.coding-mcp.json` and env vars. The server
+ * runs on stdio by default, or over HTTP (Streamable HTTP + SSE) with
+ * `--transport http`. `--watch` reloads edited tools and personas in place.
+ * SIGINT/SIGTERM (or stdin closing on stdio) drain in-flight calls before exit.
+ * An optional JSONL event log records every call for `coding-mcp-replay`,
+ * and optional tracing exports a span tree per call over OTLP. Personas,
+ * system prompts and recent results are also served as MCP resources, and
+ * each persona's analysis templates as MCP prompts.
  */
 
-// 1. Create an MCP server instance
-const server = new Server(
-  {
-    name: "cursor-tools",
-    version: "2.0.5",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+async function main() {
+  const transportConfig = resolveTransportConfig();
+  const { config, sources } = loadServerConfig();
+  configureProviders(config);
+  rateLimiter.configure(config.rateLimits);
+  if (sources.length > 0) {
+    console.error(`Loaded configuration from ${sources.join(", ")}`);
   }
-);
 
-// 2. Define the list of tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: screenshotToolName,
-        description: screenshotToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            url: {
-              type: "string",
-              description: "Full URL to screenshot",
-            },
-            relativePath: {
-              type: "string",
-              description: "Relative path appended to http://localhost:3000",
-            },
-            fullPathToScreenshot: {
-              type: "string",
-              description:
-                "Path to where the screenshot file should be saved. This should be a cwd-style full path to the file (not relative to the current working directory) including the file name and extension.",
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: architectToolName,
-        description: architectToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            task: {
-              type: "string",
-              description: "Description of the task",
-            },
-            code: {
-              type: "string",
-              description: "Concatenated code from one or more files",
-            },
-            reasoning_effort: {
-              type: "string",
-              enum: ["low", "medium", "high"],
-              description: "How hard the model should think (default: high)",
-            },
-            persona: {
-              type: "string",
-              description:
-                "Persona to apply (e.g., 'charles' for British architect)",
-            },
-          },
-          required: ["task", "code"],
-        },
-      },
-      {
-        name: codeReviewToolName,
-        description: codeReviewToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            folderPath: {
-              type: "string",
-              description:
-                "Path to the full root directory of the repository to diff against main",
-            },
-          },
-          required: ["folderPath"],
-        },
-      },
-      {
-        name: codeAdviceToolName,
-        description: codeAdviceToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            task: {
-              type: "string",
-              description: "Description of the problem or advice needed",
-            },
-            code: {
-              type: "string",
-              description: "Relevant code snippet",
-            },
-            reasoning_effort: {
-              type: "string",
-              enum: ["low", "medium", "high"],
-              description: "How hard the model should think (low/medium/high)",
-            },
-          },
-          required: ["task", "code"],
-        },
-      },
-      {
-        name: researcherToolName,
-        description: researcherToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description: "Research query to investigate",
-            },
-            search_engines: {
-              type: "array",
-              items: {
-                type: "string",
-                enum: [
-                  "google",
-                  "xai",
-                  "arxiv",
-                  "wikipedia",
-                  "github",
-                  "stackexchange",
-                  "pubmed",
-                  "semantic_scholar",
-                ],
-              },
-              description: "Search engines to use (default: google, xai)",
-            },
-            max_results_per_engine: {
-              type: "number",
-              description:
-                "Maximum results per search engine (1-20, default: 5)",
-            },
-            deep_search: {
-              type: "boolean",
-              description: "Whether to perform deep search by following links",
-            },
-            include_academic: {
-              type: "boolean",
-              description: "Whether to prioritize academic sources",
-            },
-            citation_style: {
-              type: "string",
-              enum: ["apa", "mla", "chicago", "ieee", "inline"],
-              description: "Citation style to use (default: inline)",
-            },
-          },
-          required: ["query"],
-        },
-      },
-      {
-        name: personaToolName,
-        description: personaToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            persona_id: {
-              type: "string",
-              description: "ID of the persona (e.g., 'charles')",
-            },
-            query: {
-              type: "string",
-              description: "Question or request for the persona",
-            },
-            context: {
-              type: "string",
-              description: "Additional context or code to analyze",
-            },
-            analysis_type: {
-              type: "string",
-              enum: ["comprehensive", "advice", "research", "review"],
-              description: "Type of analysis (default: advice)",
-            },
-            reasoning_effort: {
-              type: "string",
-              enum: ["low", "medium", "high"],
-              description: "Reasoning effort level",
-            },
-          },
-          required: ["persona_id", "query"],
-        },
-      },
-      {
-        name: askToolName,
-        description: askToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            persona_id: {
-              type: "string",
-              description:
-                "Persona to use: 'auto' (default) routes to best expert, or a specific id like 'charles', 'ada', 'xavier'",
-            },
-            query: {
-              type: "string",
-              description: "Your question or request",
-            },
-            context: {
-              type: "string",
-              description: "Additional code or context for analysis",
-            },
-            hint: {
-              type: "string",
-              description:
-                "Optional hint for routing (e.g., 'architecture', 'security')",
-            },
-            explain_routing: {
-              type: "boolean",
-              description: "Show which persona was selected and why",
-            },
-            reasoning_effort: {
-              type: "string",
-              enum: ["low", "medium", "high"],
-              description: "How thoroughly to think about the answer",
-            },
-            provider: {
-              type: "string",
-              enum: ["xai", "openai"],
-              description:
-                "Optional provider override; defaults to persona preference or heuristic",
-            },
-          },
-          required: ["query"],
-        },
-      },
-      {
-        name: discoverToolName,
-        description: discoverToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            category: {
-              type: "string",
-              enum: [
-                "architecture",
-                "enterprise",
-                "algorithms",
-                "security",
-                "frontend",
-                "backend",
-                "data",
-                "all",
-              ],
-              description: "Filter personas by category",
-            },
-            verbose: {
-              type: "boolean",
-              description:
-                "Show detailed information including example queries",
-            },
-          },
-          required: [],
-        },
-      },
-    ],
-  };
-});
+  // Persist events before anything registers so the log sees every tool
+  let eventLog: EventLogSink | undefined;
+  if (config.eventLog) {
+    const { path: logPath, ...logOptions } = config.eventLog;
+    eventLog = new EventLogSink({ filePath: path.resolve(logPath), ...logOptions });
+    eventLog.start();
+  }
 
-// 3. Implement the tool call logic
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+  if (config.tracing) {
+    tracer.configure(
+      config.tracing.exporter === "file"
+        ? new JsonFileExporter(path.resolve(config.tracing.path))
+        : new OtlpHttpExporter(
+            config.tracing.endpoint,
+            config.tracing.headers,
+            config.tracing.timeoutMs
+          ),
+      { serviceVersion: SERVER_VERSION }
+    );
+  }
+
+  // 1. Register built-in tools, then discovered plugins, in dependency order
+  await toolRegistry.registerAll(builtinTools, "builtin");
 
-  switch (name) {
-    case screenshotToolName: {
-      const validated = ScreenshotToolSchema.parse(args);
-      return await runScreenshotTool(validated);
-    }
-    case architectToolName: {
-      const validated = ArchitectToolSchema.parse(args);
-      return await runArchitectTool(validated);
-    }
-    case codeReviewToolName: {
-      const validated = CodeReviewToolSchema.parse(args);
-      return await runCodeReviewTool(validated);
-    }
-    case codeAdviceToolName: {
-      const validated = CodeAdviceToolSchema.parse(args);
-      return await runCodeAdviceTool(validated);
-    }
-    case researcherToolName: {
-      const validated = ResearcherToolSchema.parse(args);
-      return await runResearcherTool(validated);
-    }
-    case personaToolName: {
-      const validated = PersonaToolSchema.parse(args);
-      return await runPersonaTool(validated);
-    }
-    case askToolName: {
-      const validated = AskToolSchema.parse(args);
-      return await runAskTool(validated);
-    }
-    case discoverToolName: {
-      const validated = DiscoverToolSchema.parse(args);
-      return await runDiscoverTool(validated);
-    }
-    default:
-      throw new Error(`Unknown tool: ${name}`);
+  const pluginConfig = resolvePluginConfig();
+  const discovery = new ToolDiscovery(toolRegistry);
+  for (const directory of pluginConfig.directories) {
+    await discovery.discoverDirectory(directory);
+  }
+  if (pluginConfig.scanPackages) {
+    await discovery.discoverPackages(pluginConfig.projectRoot);
   }
-});
 
-// 4. Start the MCP server with a stdio transport
-async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Cursor Tools MCP Server running on stdio");
+  // 2. One dispatcher shared by every session, with validated tool config
+  const toolConfig = resolveToolConfigs(
+    toolRegistry.listRegistrations().map((registration) => registration.tool),
+    config.tools
+  );
+  const { linkThreshold, ...resultOptions } = config.results ?? {};
+  const results = new ResultStore(resultOptions);
+  const dispatcher = CommandDispatcher.create(toolRegistry, {
+    ...config.dispatcher,
+    toolConfig,
+    resultStore: results,
+    resultLinkThreshold: linkThreshold,
+  });
+  await toolRegistry.register(
+    createServerStatusTool({ registry: toolRegistry, dispatcher, eventBus }),
+    "builtin"
+  );
+  // Filled in below; tool-admin won't re-enable these
+  const configDisabled = new Set<string>();
+  await toolRegistry.register(
+    createToolAdminTool({ registry: toolRegistry, configDisabled }),
+    "builtin"
+  );
+
+  // Project allowlist/denylist; dependents of a disabled tool go with it
+  for (const id of resolveDisabledTools(
+    toolRegistry.listRegistrations().map((registration) => registration.tool),
+    config
+  )) {
+    toolRegistry.setEnabled(id, false, { cascade: true });
+    configDisabled.add(id);
+  }
+  eventBus.emit("registry:initialized", {
+    toolCount: toolRegistry.getStats().totalTools,
+  });
+
+  const createServer = () =>
+    createMcpServer({
+      registry: toolRegistry,
+      dispatch: (request, options) => dispatcher.dispatch(request, options),
+      eventBus,
+      results,
+    });
+
+  // Development watch mode: swap edited modules in and notify clients
+  let reloader: HotReloader | undefined;
+  if (process.argv.includes("--watch") || config.watch) {
+    const moduleRoot = path.dirname(fileURLToPath(import.meta.url));
+    reloader = new HotReloader(toolRegistry, {
+      toolDirs: [path.join(moduleRoot, "tools"), ...pluginConfig.directories],
+      personaDirs: [path.join(moduleRoot, "personas")],
+    });
+    reloader.start();
+  }
+
+  // 3. Start the selected transport
+  let closeTransport: () => Promise<void>;
+  if (transportConfig.transport === "http") {
+    const host = new HttpTransportHost({
+      host: transportConfig.host,
+      port: transportConfig.port,
+      allowedHosts: transportConfig.allowedHosts,
+      allowedOrigins: transportConfig.allowedOrigins,
+      createServer,
+      getHealth: () => ({
+        tools: toolRegistry.getStats().enabledTools,
+        shuttingDown: dispatcher.isShuttingDown(),
+      }),
+    });
+    const { port } = await host.start();
+    closeTransport = () => host.close();
+    console.error(
+      `Cursor Tools MCP Server running on http://${transportConfig.host}:${port}/mcp (SSE: /sse, health: /health)`
+    );
+  } else {
+    const server = createServer();
+    await server.connect(new StdioServerTransport());
+    closeTransport = () => server.close();
+    console.error("Cursor Tools MCP Server running on stdio");
+  }
+
+  // 4. Drain in-flight calls on SIGINT/SIGTERM or when the client goes away
+  new GracefulShutdown({
+    dispatcher,
+    registry: toolRegistry,
+    eventBus,
+    gracePeriod: config.shutdownGracePeriod,
+    closeResources: async () => {
+      reloader?.stop();
+      await closeTransport();
+      eventLog?.stop();
+      await tracer.shutdown();
+    },
+  }).install({ watchStdin: transportConfig.transport === "stdio" });
 }
 
 main().catch((error) => {
+  if (error instanceof ConfigError) {
+    console.error(error.message);
+    process.exit(1);
+  }
   console.error("Fatal error:", error);
   process.exit(1);
 });
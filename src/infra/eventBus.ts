@@ -1,74 +1,284 @@
 /**
  * EventBus wrapper for MCP tool system
  * Extends the provided EventBus with tool-specific event types
+ *   - Exact (`tool:error`) and wildcard (`tool:*`, `*`) subscriptions
+ *   - Handler priorities; higher runs first, ties in subscription order
+ *   - emitAsync awaits handlers with per-handler error isolation and timeouts
+ *   - Buffered subscriptions queue events so slow handlers never block emit
  */
 
-type EventHandler<T = any> = (data: T) => void;
+type EventHandler<T = any> = (data: T) => unknown;
+
+/**
+ * Receives every event whose name matches the pattern, with the time it was
+ * emitted (epoch ms), which buffered handlers may see much later
+ */
+type PatternHandler = (data: any, event: string, emittedAt: number) => unknown;
+
+/** `tool:*`, `registry:discovery:*`, or `*` for everything */
+export type EventPattern = `${string}*`;
+
+export interface BufferOptions {
+  /** Events held for a slow handler before overflow kicks in (default 1000) */
+  maxSize?: number;
+  /** Which event to discard when the buffer is full (default drop-oldest) */
+  overflow?: "drop-oldest" | "drop-newest";
+}
+
+export interface SubscribeOptions {
+  /** Component name or identifier, shown in errors and debug info */
+  source?: string;
+  /** Higher priorities run first (default 0) */
+  priority?: number;
+  /** Deliver asynchronously through a bounded queue instead of inline */
+  buffered?: boolean | BufferOptions;
+}
+
+export interface EmitAsyncOptions {
+  /** Per-handler time limit in milliseconds (default 5000) */
+  timeout?: number;
+}
+
+export interface EmitAsyncResult {
+  /** Handlers that completed, including buffered ones that were queued */
+  delivered: number;
+  failures: Array<{ source?: string; error: Error }>;
+}
+
+export const DEFAULT_BUFFER_SIZE = 1000;
+export const DEFAULT_EMIT_TIMEOUT = 5000;
+
+type ListenerBuffer = {
+  queue: Array<{ event: string; data: unknown; emittedAt: number }>;
+  maxSize: number;
+  overflow: "drop-oldest" | "drop-newest";
+  dropped: number;
+  draining?: Promise<void>;
+};
 
 // Track listener sources for debugging and cleanup verification
 type ListenerSource = {
-  handler: EventHandler;
+  handler: PatternHandler;
   source?: string; // Component name or identifier
   createdAt: number;
+  priority: number;
+  order: number;
+  buffer?: ListenerBuffer;
 };
 
+function isPattern(event: string): boolean {
+  return event.includes("*");
+}
+
+function compilePattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
 class EventBus {
-  private listeners: Map<string, Set<ListenerSource>> = new Map();
+  private listeners: Map<string, ListenerSource[]> = new Map();
+  private patterns: Map<string, RegExp> = new Map();
   private totalListenerCount = 0;
+  private subscriptionCounter = 0;
+  // Running buffer drains, including those of since-unsubscribed listeners
+  private drains = new Set<Promise<void>>();
 
   /**
-   * Subscribe to an event
+   * Subscribe to an event, or to every event matching a wildcard pattern.
+   * The third argument is a source name or SubscribeOptions.
    */
   on<K extends keyof EventMap>(
     event: K,
     handler: EventHandler<EventMap[K]>,
-    source?: string
+    options?: string | SubscribeOptions
+  ): () => void;
+  on(
+    pattern: EventPattern,
+    handler: PatternHandler,
+    options?: string | SubscribeOptions
+  ): () => void;
+  on(
+    event: string,
+    handler: PatternHandler,
+    options: string | SubscribeOptions = {}
   ): () => void {
-    if (!this.listeners.has(event as string)) {
-      this.listeners.set(event as string, new Set());
+    const { source, priority = 0, buffered } =
+      typeof options === "string" ? { source: options } : options;
+
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+      if (isPattern(event)) {
+        this.patterns.set(event, compilePattern(event));
+      }
     }
 
     const listenerSource: ListenerSource = {
       handler,
       source,
       createdAt: Date.now(),
+      priority,
+      order: this.subscriptionCounter++,
+      buffer: buffered
+        ? {
+            queue: [],
+            maxSize: (buffered === true ? undefined : buffered.maxSize) ?? DEFAULT_BUFFER_SIZE,
+            overflow: (buffered === true ? undefined : buffered.overflow) ?? "drop-oldest",
+            dropped: 0,
+          }
+        : undefined,
     };
 
-    const handlers = this.listeners.get(event as string)!;
-    handlers.add(listenerSource);
+    const handlers = this.listeners.get(event)!;
+    handlers.push(listenerSource);
+    handlers.sort(byPriority);
     this.totalListenerCount++;
 
-    // Return unsubscribe function
+    // Return unsubscribe function; events already buffered are still delivered
     return () => {
-      const removed = handlers.delete(listenerSource);
-      if (removed) {
-        this.totalListenerCount--;
-      }
-      if (handlers.size === 0) {
-        this.listeners.delete(event as string);
+      const current = this.listeners.get(event);
+      const index = current?.indexOf(listenerSource) ?? -1;
+      if (index === -1) return;
+      current!.splice(index, 1);
+      this.totalListenerCount--;
+      if (current!.length === 0) {
+        this.listeners.delete(event);
+        this.patterns.delete(event);
       }
     };
   }
 
   /**
-   * Emit an event to all subscribers
+   * Emit an event to all subscribers. Handlers run synchronously; a promise
+   * returned by a handler is not awaited, but its rejection is logged.
    */
   emit<K extends keyof EventMap>(event: K, data: EventMap[K]): void {
-    const handlers = this.listeners.get(event as string);
-    if (handlers) {
-      handlers.forEach((listenerSource) => {
-        try {
-          listenerSource.handler(data);
-        } catch (error) {
-          console.error(
-            `Error in event handler for ${String(event)} (source: ${
-              listenerSource.source || "unknown"
-            }):`,
-            error
-          );
+    const emittedAt = Date.now();
+    for (const listener of this.matchingListeners(event as string)) {
+      if (listener.buffer) {
+        this.enqueue(listener, event as string, data, emittedAt);
+        continue;
+      }
+      try {
+        const result = listener.handler(data, event as string, emittedAt);
+        if (isPromise(result)) {
+          result.catch((error) => this.reportHandlerError(event as string, listener, error));
         }
-      });
+      } catch (error) {
+        this.reportHandlerError(event as string, listener, error);
+      }
+    }
+  }
+
+  /**
+   * Emit an event and await each handler in priority order. A failing or
+   * slow handler is logged and reported, and never stops the others.
+   * Buffered handlers are queued as with emit().
+   */
+  async emitAsync<K extends keyof EventMap>(
+    event: K,
+    data: EventMap[K],
+    options: EmitAsyncOptions = {}
+  ): Promise<EmitAsyncResult> {
+    const timeout = options.timeout ?? DEFAULT_EMIT_TIMEOUT;
+    const result: EmitAsyncResult = { delivered: 0, failures: [] };
+    const emittedAt = Date.now();
+
+    for (const listener of this.matchingListeners(event as string)) {
+      if (listener.buffer) {
+        this.enqueue(listener, event as string, data, emittedAt);
+        result.delivered++;
+        continue;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        await Promise.race([
+          Promise.resolve().then(() => listener.handler(data, event as string, emittedAt)),
+          new Promise((_, reject) => {
+            timer = setTimeout(
+              () => reject(new Error(`Handler timed out after ${timeout}ms`)),
+              timeout
+            );
+          }),
+        ]);
+        result.delivered++;
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error(String(error));
+        result.failures.push({ source: listener.source, error: failure });
+        this.reportHandlerError(event as string, listener, failure);
+      } finally {
+        clearTimeout(timer);
+      }
     }
+
+    return result;
+  }
+
+  /**
+   * Wait until every buffered handler has caught up
+   */
+  async flush(): Promise<void> {
+    while (this.drains.size > 0) {
+      await Promise.all(this.drains);
+    }
+  }
+
+  private enqueue(
+    listener: ListenerSource,
+    event: string,
+    data: unknown,
+    emittedAt: number
+  ): void {
+    const buffer = listener.buffer!;
+    if (buffer.queue.length >= buffer.maxSize) {
+      buffer.dropped++;
+      if (buffer.overflow === "drop-newest") return;
+      buffer.queue.shift();
+    }
+    buffer.queue.push({ event, data, emittedAt });
+
+    if (!buffer.draining) {
+      buffer.draining = this.drain(listener);
+      this.drains.add(buffer.draining);
+    }
+  }
+
+  /**
+   * Deliver queued events one at a time, off the emitter's call stack
+   */
+  private async drain(listener: ListenerSource): Promise<void> {
+    const buffer = listener.buffer!;
+    await new Promise((resolve) => setImmediate(resolve));
+
+    while (buffer.queue.length > 0) {
+      const { event, data, emittedAt } = buffer.queue.shift()!;
+      try {
+        await listener.handler(data, event, emittedAt);
+      } catch (error) {
+        this.reportHandlerError(event, listener, error);
+      }
+    }
+
+    // Cleared in the same tick as the empty check so no event is stranded
+    this.drains.delete(buffer.draining!);
+    buffer.draining = undefined;
+  }
+
+  private matchingListeners(event: string): ListenerSource[] {
+    const matching = [...(this.listeners.get(event) ?? [])];
+    for (const [pattern, regex] of this.patterns) {
+      if (regex.test(event)) {
+        matching.push(...this.listeners.get(pattern)!);
+      }
+    }
+    return matching.sort(byPriority);
+  }
+
+  private reportHandlerError(event: string, listener: ListenerSource, error: unknown): void {
+    console.error(
+      `Error in event handler for ${event} (source: ${listener.source || "unknown"}):`,
+      error
+    );
   }
 
   /**
@@ -77,35 +287,39 @@ class EventBus {
   once<K extends keyof EventMap>(
     event: K,
     handler: EventHandler<EventMap[K]>,
-    source?: string
+    options?: string | SubscribeOptions
   ): () => void {
     const unsubscribe = this.on(
       event,
       (data) => {
-        handler(data);
         unsubscribe();
+        return handler(data);
       },
-      source
+      options
     );
     return unsubscribe;
   }
 
   /**
-   * Remove all listeners for an event or all events
+   * Remove all listeners for an event (or pattern) or all events
    */
-  off<K extends keyof EventMap>(event?: K): void {
+  off<K extends keyof EventMap>(event?: K | EventPattern): void {
     if (event) {
+      this.totalListenerCount -= this.listeners.get(event as string)?.length ?? 0;
       this.listeners.delete(event as string);
+      this.patterns.delete(event as string);
     } else {
       this.listeners.clear();
+      this.patterns.clear();
+      this.totalListenerCount = 0;
     }
   }
 
   /**
-   * Get the number of listeners for an event
+   * Get the number of listeners an event reaches, including wildcard ones
    */
   listenerCount<K extends keyof EventMap>(event: K): number {
-    return this.listeners.get(event as string)?.size || 0;
+    return this.matchingListeners(event as string).length;
   }
 
   /**
@@ -128,17 +342,26 @@ class EventBus {
   getDebugInfo(): {
     totalListeners: number;
     eventCounts: Record<string, number>;
+    /** Listeners per event by source ("unknown" when none was given) */
+    sourceCounts: Record<string, Record<string, number>>;
     oldListeners: Array<{ event: string; source?: string; age: number }>;
+    buffers: Array<{ event: string; source?: string; queued: number; dropped: number }>;
   } {
     const eventCounts: Record<string, number> = {};
+    const sourceCounts: Record<string, Record<string, number>> = {};
     const oldListeners: Array<{ event: string; source?: string; age: number }> =
       [];
+    const buffers: Array<{ event: string; source?: string; queued: number; dropped: number }> =
+      [];
     const now = Date.now();
     const OLD_THRESHOLD = 5 * 60 * 1000; // 5 minutes
 
     this.listeners.forEach((handlers, event) => {
-      eventCounts[event] = handlers.size;
+      eventCounts[event] = handlers.length;
+      const bySource: Record<string, number> = (sourceCounts[event] = {});
       handlers.forEach((listener) => {
+        const source = listener.source || "unknown";
+        bySource[source] = (bySource[source] ?? 0) + 1;
         const age = now - listener.createdAt;
         if (age > OLD_THRESHOLD) {
           oldListeners.push({
@@ -147,17 +370,35 @@ class EventBus {
             age: Math.round(age / 1000), // in seconds
           });
         }
+        if (listener.buffer) {
+          buffers.push({
+            event,
+            source: listener.source,
+            queued: listener.buffer.queue.length,
+            dropped: listener.buffer.dropped,
+          });
+        }
       });
     });
 
     return {
       totalListeners: this.totalListenerCount,
       eventCounts,
+      sourceCounts,
       oldListeners,
+      buffers,
     };
   }
 }
 
+function byPriority(a: ListenerSource, b: ListenerSource): number {
+  return b.priority - a.priority || a.order - b.order;
+}
+
+function isPromise(value: unknown): value is Promise<unknown> {
+  return typeof (value as Promise<unknown>)?.then === "function";
+}
+
 // =============================================================================
 // MCP TOOL EVENT DEFINITIONS
 // =============================================================================
@@ -171,8 +412,23 @@ export interface ToolEventMap {
   };
   "tool:unregistered": {
     name: string;
+    version?: string;
     reason?: string;
   };
+  "tool:enabled": {
+    name: string;
+    version?: string;
+  };
+  "tool:disabled": {
+    name: string;
+    version?: string;
+  };
+  "tool:deprecated": {
+    name: string;
+    version?: string;
+    requestId?: string;
+    message: string;
+  };
   "tool:execute:start": {
     name: string;
     requestId?: string;
@@ -189,6 +445,13 @@ export interface ToolEventMap {
     error: Error;
     requestId?: string;
   };
+  "tool:progress": {
+    name: string;
+    requestId?: string;
+    progress: number;
+    total?: number;
+    message: string;
+  };
   "tool:lifecycle": {
     name: string;
     state: "loading" | "ready" | "error" | "unloading" | "disposed";
@@ -203,6 +466,16 @@ export interface ToolEventMap {
     };
   };
 
+  // Provider events
+  "provider:call": {
+    provider: string;
+    /** Persona the call was made for, if any */
+    persona?: string;
+    success: boolean;
+    executionTime: number;
+    error?: Error;
+  };
+
   // Registry events
   "registry:initialized": {
     toolCount: number;
@@ -214,6 +487,15 @@ export interface ToolEventMap {
     source: string;
     discovered: number;
     errors: number;
+    loadErrors?: Array<{ module: string; message: string }>;
+  };
+  "registry:reload": {
+    module: string;
+    tools: string[];
+    personas: string[];
+    /** The module was deleted and what it provided unregistered */
+    removed?: boolean;
+    error?: string;
   };
 
   // System events
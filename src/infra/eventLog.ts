@@ -0,0 +1,300 @@
+/**
+ * Persistent event log
+ *   - EventLogSink appends tool:*, registry:* and system:* events to a
+ *     rotating JSONL file, redacting sensitive or bulky arguments
+ *   - readEventLog / buildRequestTimelines reconstruct what each request
+ *     did from the file after the fact
+ */
+
+import fs from "fs";
+import path from "path";
+import { eventBus as defaultEventBus, type EventBus, type EventPattern } from "./eventBus.js";
+
+export const DEFAULT_EVENT_LOG_MAX_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_EVENT_LOG_MAX_FILES = 5;
+export const DEFAULT_REDACT_KEYS = ["apiKey", "api_key", "token", "password", "secret", "authorization"];
+
+const REDACTED = "[REDACTED]";
+
+const LOGGED_EVENTS: EventPattern[] = ["tool:*", "registry:*", "system:*"];
+
+export interface EventLogOptions {
+  /** JSONL file to append to; rotated files get a .1, .2, ... suffix */
+  filePath: string;
+  /** Rotate once the current file would grow past this many bytes */
+  maxBytes?: number;
+  /** Rotated files to keep besides the current one */
+  maxFiles?: number;
+  /** Keys (case-insensitive, at any depth) whose values are replaced with [REDACTED] */
+  redactKeys?: string[];
+  /** Longer strings (code, diffs, prompts) are truncated; 0 keeps them whole */
+  maxValueLength?: number;
+}
+
+/**
+ * One line of the event log
+ */
+export interface EventLogRecord {
+  ts: string;
+  event: string;
+  requestId?: string;
+  tool?: string;
+  data: unknown;
+}
+
+export class EventLogSink {
+  private readonly options: Required<EventLogOptions>;
+  private readonly eventBus: EventBus;
+  private readonly redactKeys: Set<string>;
+  private unsubscribers: Array<() => void> = [];
+  private currentSize = 0;
+
+  constructor(options: EventLogOptions, eventBusInstance?: EventBus) {
+    this.options = {
+      maxBytes: DEFAULT_EVENT_LOG_MAX_BYTES,
+      maxFiles: DEFAULT_EVENT_LOG_MAX_FILES,
+      redactKeys: DEFAULT_REDACT_KEYS,
+      maxValueLength: 2000,
+      ...options,
+    };
+    this.eventBus = eventBusInstance || defaultEventBus;
+    this.redactKeys = new Set(this.options.redactKeys.map((key) => key.toLowerCase()));
+  }
+
+  /**
+   * Subscribe to every logged event. Delivery is buffered, so file I/O
+   * happens off the emitter's call stack.
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+    this.currentSize = fs.existsSync(this.options.filePath)
+      ? fs.statSync(this.options.filePath).size
+      : 0;
+
+    this.unsubscribers = LOGGED_EVENTS.map((pattern) =>
+      this.eventBus.on(pattern, (data, event, emittedAt) => this.write(event, data, emittedAt), {
+        source: "EventLogSink",
+        buffered: true,
+      })
+    );
+  }
+
+  /**
+   * Unsubscribe; events already queued are still written (see EventBus.flush)
+   */
+  stop(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  private write(event: string, data: unknown, emittedAt: number): void {
+    const payload = data as { name?: string; requestId?: string };
+    const record: EventLogRecord = {
+      // When the event happened, not when the buffered write caught up
+      ts: new Date(emittedAt).toISOString(),
+      event,
+      ...(payload?.requestId && { requestId: payload.requestId }),
+      ...(event.startsWith("tool:") && payload?.name && { tool: payload.name }),
+      data: this.sanitize(data),
+    };
+    const line = JSON.stringify(record) + "\n";
+    const bytes = Buffer.byteLength(line);
+
+    try {
+      if (this.currentSize > 0 && this.currentSize + bytes > this.options.maxBytes) {
+        this.rotate();
+      }
+      fs.appendFileSync(this.options.filePath, line);
+      this.currentSize += bytes;
+    } catch (error) {
+      // Logging must never break tool execution
+      console.error(`⚠️ Failed to write event log ${this.options.filePath}:`, error);
+    }
+  }
+
+  /**
+   * events.jsonl -> events.jsonl.1 -> events.jsonl.2 ...; the oldest is dropped
+   */
+  private rotate(): void {
+    const { filePath, maxFiles } = this.options;
+    fs.rmSync(`${filePath}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(`${filePath}.${index}`)) {
+        fs.renameSync(`${filePath}.${index}`, `${filePath}.${index + 1}`);
+      }
+    }
+    if (maxFiles > 0) {
+      fs.renameSync(filePath, `${filePath}.1`);
+    } else {
+      fs.rmSync(filePath, { force: true });
+    }
+    this.currentSize = 0;
+  }
+
+  /**
+   * Make event data JSON-safe: errors become plain objects, secrets are
+   * redacted and long strings truncated
+   */
+  private sanitize(value: unknown, seen = new WeakSet<object>()): unknown {
+    if (typeof value === "string") {
+      const limit = this.options.maxValueLength;
+      return limit > 0 && value.length > limit
+        ? `${value.slice(0, limit)}… [${value.length - limit} more chars]`
+        : value;
+    }
+    if (value === null || typeof value !== "object") {
+      return typeof value === "function" || typeof value === "symbol" ? undefined : value;
+    }
+    if (seen.has(value)) return "[Circular]";
+    seen.add(value);
+
+    if (value instanceof Error) {
+      const { code, retryable } = value as Error & { code?: unknown; retryable?: unknown };
+      return {
+        name: value.name,
+        message: this.sanitize(value.message, seen),
+        ...(code !== undefined && { code }),
+        ...(retryable !== undefined && { retryable }),
+      };
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sanitize(item, seen));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = this.redactKeys.has(key.toLowerCase()) ? REDACTED : this.sanitize(item, seen);
+    }
+    return result;
+  }
+}
+
+// =============================================================================
+// REPLAY
+// =============================================================================
+
+export interface TimelineEntry {
+  ts: string;
+  /** Milliseconds since the request's first event */
+  offsetMs: number;
+  event: string;
+  detail?: string;
+}
+
+export interface RequestTimeline {
+  requestId: string;
+  tool?: string;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  success?: boolean;
+  error?: string;
+  entries: TimelineEntry[];
+}
+
+/**
+ * Read a log and every rotated file found next to it (`<file>.1`,
+ * `<file>.2`, ...), oldest first, whatever maxFiles wrote them. Unparseable
+ * lines (e.g. a line cut short by a crash) are skipped.
+ */
+export function readEventLog(filePath: string): EventLogRecord[] {
+  const directory = path.dirname(filePath);
+  const prefix = `${path.basename(filePath)}.`;
+  const rotated = fs.existsSync(directory)
+    ? fs
+        .readdirSync(directory)
+        .filter((name) => name.startsWith(prefix) && /^\d+$/.test(name.slice(prefix.length)))
+        .map((name) => Number(name.slice(prefix.length)))
+        .sort((a, b) => b - a)
+    : [];
+  const files = rotated.map((index) => `${filePath}.${index}`);
+  if (fs.existsSync(filePath)) files.push(filePath);
+
+  const records: EventLogRecord[] = [];
+  for (const file of files) {
+    for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Partial line
+      }
+    }
+  }
+  return records;
+}
+
+/**
+ * Group request-scoped events into per-request timelines, in start order
+ */
+export function buildRequestTimelines(records: EventLogRecord[]): RequestTimeline[] {
+  const timelines = new Map<string, RequestTimeline>();
+
+  for (const record of records) {
+    if (!record.requestId) continue;
+
+    let timeline = timelines.get(record.requestId);
+    if (!timeline) {
+      timeline = { requestId: record.requestId, startedAt: record.ts, entries: [] };
+      timelines.set(record.requestId, timeline);
+    }
+    timeline.tool ??= record.tool;
+
+    const data = (record.data ?? {}) as Record<string, any>;
+    timeline.entries.push({
+      ts: record.ts,
+      offsetMs: Date.parse(record.ts) - Date.parse(timeline.startedAt),
+      event: record.event,
+      detail: describeRecord(record.event, data),
+    });
+
+    if (record.event === "tool:execute:end") {
+      timeline.endedAt = record.ts;
+      timeline.success = data.success;
+      timeline.durationMs = typeof data.executionTime === "number"
+        ? data.executionTime
+        : Date.parse(record.ts) - Date.parse(timeline.startedAt);
+    } else if (record.event === "tool:error") {
+      timeline.error = data.error?.message;
+    }
+  }
+
+  return [...timelines.values()];
+}
+
+function describeRecord(event: string, data: Record<string, any>): string | undefined {
+  switch (event) {
+    case "tool:execute:start":
+      return data.args === undefined ? undefined : `args ${JSON.stringify(data.args)}`;
+    case "tool:progress":
+      return `${data.progress}${data.total ? `/${data.total}` : ""} ${data.message ?? ""}`.trim();
+    case "tool:error":
+      return [data.error?.code, data.error?.message].filter(Boolean).join(": ");
+    case "tool:execute:end":
+      return `${data.success ? "succeeded" : "failed"} after ${data.executionTime}ms`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Render a timeline as indented text
+ */
+export function formatTimeline(timeline: RequestTimeline): string {
+  const status = timeline.success === undefined
+    ? "did not finish"
+    : timeline.success ? "ok" : "failed";
+  const lines = [
+    `${timeline.requestId} ${timeline.tool ?? "unknown"} — ${status}` +
+      (timeline.durationMs !== undefined ? `, ${timeline.durationMs}ms` : "") +
+      ` (started ${timeline.startedAt})`,
+  ];
+  for (const entry of timeline.entries) {
+    lines.push(
+      `  +${String(entry.offsetMs).padStart(7)}ms  ${entry.event}${entry.detail ? `  ${entry.detail}` : ""}`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,384 @@
+/**
+ * HTTP transport host for the MCP server
+ * Serves Streamable HTTP on /mcp, the legacy SSE transport on /sse + /messages
+ * for older clients, and a health endpoint on /health. Requests with an
+ * unexpected Host or Origin header are rejected so web pages can't reach a
+ * local server through DNS rebinding, and idle sessions are closed.
+ */
+
+import http, { type IncomingMessage, type ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Creates a fresh MCP server for each new session */
+  createServer: () => Server;
+  /** Extra fields merged into the /health response */
+  getHealth?: () => Record<string, unknown>;
+  /**
+   * Host header values accepted besides the bound address (`name` or
+   * `name:port`). Required to reach a server bound to 0.0.0.0 or ::, whose
+   * Host header is otherwise not checked.
+   */
+  allowedHosts?: string[];
+  /** Browser origins accepted besides http://<allowed host> */
+  allowedOrigins?: string[];
+  /**
+   * Sessions without requests for this long are closed (default: 30 minutes).
+   * Sessions with an open stream or a request still running are never idle.
+   */
+  sessionIdleTimeout?: number;
+}
+
+interface HttpSession {
+  kind: "streamable" | "sse";
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  createdAt: number;
+  lastActivity: number;
+  /** Responses still open: notification streams and running requests */
+  openResponses: number;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const INVALID_BODY = Symbol("invalid-body");
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+const WILDCARD_HOSTS = ["0.0.0.0", "::", ""];
+
+export class HttpTransportHost {
+  private readonly options: HttpTransportOptions;
+  private readonly sessions = new Map<string, HttpSession>();
+  private httpServer?: http.Server;
+  private sweepTimer?: NodeJS.Timeout;
+  // Filled in once the port is bound; undefined skips the Host check
+  private allowedHosts?: Set<string>;
+  private allowedOrigins = new Set<string>();
+
+  constructor(options: HttpTransportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start listening; resolves once the port is bound
+   */
+  async start(): Promise<{ host: string; port: number }> {
+    const httpServer = http.createServer((req, res) => {
+      this.route(req, res).catch((error) => {
+        console.error("HTTP transport error:", error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, "Internal server error");
+        }
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+
+    const address = httpServer.address();
+    const port =
+      typeof address === "object" && address ? address.port : this.options.port;
+    this.resolveAllowedHosts(port);
+
+    const idleTimeout = this.options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+    this.sweepTimer = setInterval(
+      () => this.closeIdleSessions(idleTimeout),
+      Math.min(idleTimeout, 60_000)
+    );
+    this.sweepTimer.unref();
+
+    return { host: this.options.host, port };
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.allSettled(sessions.map((session) => session.server.close()));
+
+    const httpServer = this.httpServer;
+    if (httpServer) {
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      this.httpServer = undefined;
+    }
+  }
+
+  /**
+   * Number of open sessions by transport kind
+   */
+  getSessionCounts(): Record<HttpSession["kind"], number> {
+    const counts = { streamable: 0, sse: 0 };
+    this.sessions.forEach((session) => counts[session.kind]++);
+    return counts;
+  }
+
+  /**
+   * Accept the bound address (every loopback name when bound to loopback)
+   * plus configured hosts; origins default to http:// on those hosts
+   */
+  private resolveAllowedHosts(port: number): void {
+    const withPort = (host: string) => (/:\d+$/.test(host) ? host : `${host}:${port}`);
+    const bound = this.options.host.includes(":") ? `[${this.options.host}]` : this.options.host;
+    const defaults = WILDCARD_HOSTS.includes(this.options.host)
+      ? []
+      : LOOPBACK_HOSTS.includes(bound)
+      ? LOOPBACK_HOSTS
+      : [bound];
+    const configured = this.options.allowedHosts ?? [];
+
+    const hosts = [...defaults, ...configured].map((host) => withPort(host.toLowerCase()));
+    this.allowedHosts =
+      defaults.length === 0 && configured.length === 0 ? undefined : new Set(hosts);
+    this.allowedOrigins = new Set([
+      ...hosts.map((host) => `http://${host}`),
+      ...(this.options.allowedOrigins ?? []).map((origin) => origin.toLowerCase()),
+    ]);
+  }
+
+  /**
+   * DNS rebinding guard: reject unknown Host headers, and Origin headers
+   * from pages not on the allowlist (non-browser clients send no Origin)
+   */
+  private isAllowedRequest(req: IncomingMessage): boolean {
+    const host = req.headers.host?.toLowerCase();
+    if (this.allowedHosts && (!host || !this.allowedHosts.has(host))) {
+      return false;
+    }
+    const origin = req.headers.origin?.toLowerCase();
+    return origin === undefined || this.allowedOrigins.has(origin);
+  }
+
+  /**
+   * Keep a session from going idle while a response of it is open; the
+   * idle clock restarts when the response closes
+   */
+  private trackResponse(session: HttpSession, res: ServerResponse): void {
+    session.openResponses++;
+    session.lastActivity = Date.now();
+    res.on("close", () => {
+      session.openResponses--;
+      session.lastActivity = Date.now();
+    });
+  }
+
+  private closeIdleSessions(idleTimeout: number): void {
+    const cutoff = Date.now() - idleTimeout;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.openResponses > 0 || session.lastActivity >= cutoff) continue;
+      this.sessions.delete(sessionId);
+      session.server.close().catch(() => {});
+    }
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    if (!this.isAllowedRequest(req)) {
+      res.writeHead(403, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Forbidden: Host or Origin not allowed" }));
+      return;
+    }
+
+    switch (url.pathname) {
+      case "/health":
+        return this.handleHealth(req, res);
+      case "/mcp":
+        return this.handleStreamable(req, res);
+      case "/sse":
+        return this.handleSseConnect(req, res);
+      case "/messages":
+        return this.handleSseMessage(req, res, url);
+      default:
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Not found" }));
+    }
+  }
+
+  private handleHealth(req: IncomingMessage, res: ServerResponse): void {
+    if (req.method !== "GET") {
+      res.writeHead(405, { Allow: "GET" }).end();
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        status: "ok",
+        sessions: this.getSessionCounts(),
+        uptime: Math.round(process.uptime()),
+        ...this.options.getHealth?.(),
+      })
+    );
+  }
+
+  private async handleStreamable(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await this.readJsonBody(req, res) : undefined;
+    if (body === INVALID_BODY) return;
+
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.kind !== "streamable") {
+        this.sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      this.trackResponse(session, res);
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(
+        req,
+        res,
+        body
+      );
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(
+        res,
+        400,
+        -32000,
+        "Bad Request: missing session ID or not an initialize request"
+      );
+      return;
+    }
+
+    // New session: one Server per transport
+    const server = this.options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, {
+          kind: "streamable",
+          server,
+          transport,
+          createdAt: Date.now(),
+          lastActivity: Date.now(),
+          openResponses: 0,
+        });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected initialize never registers a session; don't leak its server
+      if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+        await server.close().catch(() => {});
+      }
+    }
+  }
+
+  private async handleSseConnect(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    if (req.method !== "GET") {
+      res.writeHead(405, { Allow: "GET" }).end();
+      return;
+    }
+
+    const server = this.options.createServer();
+    const transport = new SSEServerTransport("/messages", res);
+    const session: HttpSession = {
+      kind: "sse",
+      server,
+      transport,
+      createdAt: Date.now(),
+      lastActivity: Date.now(),
+      openResponses: 0,
+    };
+    this.sessions.set(transport.sessionId, session);
+    // The event stream stays open for the whole session
+    this.trackResponse(session, res);
+    res.on("close", () => {
+      this.sessions.delete(transport.sessionId);
+      server.close().catch(() => {});
+    });
+
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      this.sessions.delete(transport.sessionId);
+      await server.close().catch(() => {});
+      throw error;
+    }
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): Promise<void> {
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" }).end();
+      return;
+    }
+
+    const sessionId = url.searchParams.get("sessionId") || "";
+    const session = this.sessions.get(sessionId);
+    if (!session || session.kind !== "sse") {
+      this.sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+
+    this.trackResponse(session, res);
+    const body = await this.readJsonBody(req, res);
+    if (body === INVALID_BODY) return;
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  }
+
+  private async readJsonBody(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        this.sendJsonRpcError(res, 413, -32600, "Request body too large");
+        return INVALID_BODY;
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, "Parse error");
+      return INVALID_BODY;
+    }
+  }
+
+  private sendJsonRpcError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+  }
+}
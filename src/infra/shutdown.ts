@@ -0,0 +1,114 @@
+/**
+ * Graceful shutdown for the MCP server process
+ *   - SIGINT / SIGTERM, or stdin closing in stdio mode, start a shutdown
+ *   - New calls are refused while in-flight ones drain for a grace period
+ *   - system:shutdown unloads tools (closing browsers), then transports
+ *     close and output is flushed before exit
+ */
+
+import type { CommandDispatcher } from "../core/CommandDispatcher.js";
+import type { ToolRegistry } from "../core/ToolRegistry.js";
+import { eventBus as defaultEventBus, type EventBus } from "./eventBus.js";
+
+export const DEFAULT_SHUTDOWN_GRACE_PERIOD = 10000;
+
+export interface GracefulShutdownOptions {
+  dispatcher: CommandDispatcher;
+  registry: ToolRegistry;
+  eventBus?: EventBus;
+  /** How long in-flight executions may keep running, in milliseconds */
+  gracePeriod?: number;
+  /** Closes transports, watchers and other resources once work has drained */
+  closeResources: () => Promise<void>;
+  /** Process exit, replaceable for tests */
+  exit?: (code: number) => void;
+}
+
+export class GracefulShutdown {
+  private readonly options: Required<GracefulShutdownOptions>;
+  private shutdownPromise?: Promise<void>;
+
+  constructor(options: GracefulShutdownOptions) {
+    this.options = {
+      eventBus: defaultEventBus,
+      gracePeriod: DEFAULT_SHUTDOWN_GRACE_PERIOD,
+      exit: (code) => process.exit(code),
+      ...options,
+    };
+  }
+
+  /**
+   * Install signal handlers, and a stdin-close handler for stdio mode.
+   * A second signal during shutdown exits immediately.
+   */
+  install({ watchStdin }: { watchStdin: boolean }): void {
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.on(signal, () => {
+        if (this.shutdownPromise) {
+          console.error(`${signal} received again, exiting immediately`);
+          this.options.exit(1);
+          return;
+        }
+        void this.shutdown(signal);
+      });
+    }
+
+    if (watchStdin) {
+      // The client closing our stdin means nobody can read our responses
+      process.stdin.once("end", () => void this.shutdown("stdin closed"));
+      process.stdin.once("close", () => void this.shutdown("stdin closed"));
+    }
+  }
+
+  /**
+   * Run the shutdown sequence once and exit
+   */
+  shutdown(reason: string): Promise<void> {
+    this.shutdownPromise ??= this.run(reason);
+    return this.shutdownPromise;
+  }
+
+  private async run(reason: string): Promise<void> {
+    const { dispatcher, registry, eventBus, gracePeriod, closeResources, exit } =
+      this.options;
+    let exitCode = 0;
+
+    console.error(`🛑 Shutting down (${reason}), draining in-flight requests...`);
+
+    try {
+      // 1. Refuse new calls and wait for running ones
+      const { drained, aborted } = await dispatcher.shutdown(gracePeriod);
+      if (!drained) {
+        console.error(
+          `⚠️ Grace period of ${gracePeriod}ms elapsed; aborted ${aborted} request(s)`
+        );
+      }
+
+      // 2. Unload tools (screenshot closes its browsers) and notify listeners
+      eventBus.emit("system:shutdown", { timestamp: Date.now(), reason });
+      await registry.shutdown();
+
+      // 3. Close sessions, let buffered subscribers (event log) catch up
+      // and flush output
+      await closeResources();
+      await eventBus.flush();
+    } catch (error) {
+      console.error("Error during shutdown:", error);
+      exitCode = 1;
+    }
+
+    await flushStream(process.stderr);
+    await flushStream(process.stdout);
+    exit(exitCode);
+  }
+}
+
+function flushStream(stream: NodeJS.WriteStream): Promise<void> {
+  return new Promise((resolve) => {
+    if (stream.destroyed || !stream.writable) {
+      resolve();
+      return;
+    }
+    stream.write("", () => resolve());
+  });
+}
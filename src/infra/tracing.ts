@@ -0,0 +1,369 @@
+/**
+ * Lightweight OpenTelemetry-compatible tracing
+ *   - Spans nest through AsyncLocalStorage, so a provider call made deep
+ *     inside a tool becomes a child of the dispatcher's tools/call span
+ *   - Ended spans are batched and exported as OTLP/JSON, either over
+ *     OTLP/HTTP to a collector or appended to a local JSONL file
+ *   - With no exporter configured, spans are no-ops
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import fs from "fs";
+import path from "path";
+
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+/** OTLP span kinds */
+export enum SpanKind {
+  INTERNAL = 1,
+  SERVER = 2,
+  CLIENT = 3,
+}
+
+/** OTLP status codes */
+export enum SpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2,
+}
+
+/**
+ * A finished span, as handed to exporters
+ */
+export interface ReadableSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTimeUnixNano: bigint;
+  endTimeUnixNano: bigint;
+  attributes: Record<string, AttributeValue>;
+  status: { code: SpanStatusCode; message?: string };
+}
+
+export const DEFAULT_OTLP_ENDPOINT = "http://localhost:4318/v1/traces";
+/** Matches the OTLP exporter default (OTEL_EXPORTER_OTLP_TIMEOUT) */
+export const DEFAULT_OTLP_TIMEOUT = 10000;
+
+export interface SpanExporter {
+  export(spans: ReadableSpan[], resource: Record<string, AttributeValue>): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  /** Defaults to the active span; null starts a new trace */
+  parent?: Span | null;
+}
+
+// Wall-clock anchor plus a monotonic offset gives nanosecond timestamps
+const EPOCH_NANOS = BigInt(Date.now()) * 1_000_000n;
+const EPOCH_HRTIME = process.hrtime.bigint();
+
+function nowUnixNano(): bigint {
+  return EPOCH_NANOS + (process.hrtime.bigint() - EPOCH_HRTIME);
+}
+
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly attributes: Record<string, AttributeValue> = {};
+  private status: ReadableSpan["status"] = { code: SpanStatusCode.UNSET };
+  private readonly startTime = nowUnixNano();
+  private ended = false;
+
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    parent: Span | undefined,
+    private readonly onEnd: (span: ReadableSpan) => void,
+    readonly recording: boolean
+  ) {
+    this.traceId = parent?.traceId ?? (recording ? randomBytes(16).toString("hex") : "");
+    this.spanId = recording ? randomBytes(8).toString("hex") : "";
+    this.parentSpanId = parent?.spanId;
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (this.recording && value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: Attributes): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = { code, message };
+    return this;
+  }
+
+  /**
+   * Mark the span failed, keeping a ToolError's code when there is one
+   */
+  recordError(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = (error as { code?: unknown })?.code;
+    this.setAttribute("error.type", error instanceof Error ? error.name : typeof error);
+    if (typeof code === "string") {
+      this.setAttribute("error.code", code);
+    }
+    return this.setStatus(SpanStatusCode.ERROR, message);
+  }
+
+  end(): void {
+    if (this.ended || !this.recording) return;
+    this.ended = true;
+    this.onEnd({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTimeUnixNano: this.startTime,
+      endTimeUnixNano: nowUnixNano(),
+      attributes: { ...this.attributes },
+      status: this.status,
+    });
+  }
+}
+
+export interface TracerOptions {
+  serviceName?: string;
+  serviceVersion?: string;
+  /** Export once this many spans are waiting (default 128) */
+  maxBatchSize?: number;
+  /** Export waiting spans after this long, in milliseconds (default 1000) */
+  flushInterval?: number;
+}
+
+export class Tracer {
+  private readonly context = new AsyncLocalStorage<Span>();
+  private exporter?: SpanExporter;
+  private options: Required<TracerOptions> = {
+    serviceName: "coding-mcp",
+    serviceVersion: "unknown",
+    maxBatchSize: 128,
+    flushInterval: 1000,
+  };
+  private pending: ReadableSpan[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private exporting: Promise<void> = Promise.resolve();
+
+  /**
+   * Start recording spans; replaces any previous exporter
+   */
+  configure(exporter: SpanExporter | undefined, options: TracerOptions = {}): void {
+    this.exporter = exporter;
+    this.options = { ...this.options, ...options };
+  }
+
+  get enabled(): boolean {
+    return this.exporter !== undefined;
+  }
+
+  activeSpan(): Span | undefined {
+    return this.context.getStore();
+  }
+
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent === null ? undefined : options.parent ?? this.activeSpan();
+    const span = new Span(
+      name,
+      options.kind ?? SpanKind.INTERNAL,
+      parent,
+      (finished) => this.onSpanEnd(finished),
+      this.enabled
+    );
+    if (options.attributes) {
+      span.setAttributes(options.attributes);
+    }
+    return span;
+  }
+
+  /**
+   * Run fn inside a new active span, ending it when fn settles.
+   * A thrown error marks the span failed and is rethrown.
+   */
+  withSpan<T>(
+    name: string,
+    fn: (span: Span) => Promise<T> | T,
+    options: StartSpanOptions = {}
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    if (!span.recording) {
+      // Tracing is off: call straight through without extra promise hops
+      try {
+        return Promise.resolve(fn(span));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+    return this.runInSpan(span, fn);
+  }
+
+  private async runInSpan<T>(span: Span, fn: (span: Span) => Promise<T> | T): Promise<T> {
+    try {
+      return await this.context.run(span, () => fn(span));
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Export everything that has ended so far
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const batch = this.pending.splice(0);
+    const exporter = this.exporter;
+    if (batch.length > 0 && exporter) {
+      const resource = {
+        "service.name": this.options.serviceName,
+        "service.version": this.options.serviceVersion,
+      };
+      // Exports run one at a time so file output keeps span order
+      this.exporting = this.exporting.then(() =>
+        exporter.export(batch, resource).catch((error) => {
+          console.error(`⚠️ Failed to export ${batch.length} span(s):`, error instanceof Error ? error.message : error);
+        })
+      );
+    }
+    await this.exporting;
+  }
+
+  /**
+   * Flush and release the exporter
+   */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    await this.exporter?.shutdown?.();
+    this.exporter = undefined;
+  }
+
+  private onSpanEnd(span: ReadableSpan): void {
+    this.pending.push(span);
+    if (this.pending.length >= this.options.maxBatchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.flushInterval);
+      this.timer.unref?.();
+    }
+  }
+}
+
+// =============================================================================
+// OTLP/JSON ENCODING AND EXPORTERS
+// =============================================================================
+
+function encodeAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+        ? { boolValue: value }
+        : Number.isInteger(value)
+        ? { intValue: String(value) }
+        : { doubleValue: value },
+  }));
+}
+
+/**
+ * Encode spans as an OTLP/JSON ExportTraceServiceRequest
+ */
+export function toOtlpJson(
+  spans: ReadableSpan[],
+  resource: Record<string, AttributeValue>
+): Record<string, unknown> {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: encodeAttributes(resource) },
+        scopeSpans: [
+          {
+            scope: { name: String(resource["service.name"] ?? "coding-mcp") },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+              name: span.name,
+              kind: span.kind,
+              startTimeUnixNano: span.startTimeUnixNano.toString(),
+              endTimeUnixNano: span.endTimeUnixNano.toString(),
+              attributes: encodeAttributes(span.attributes),
+              status: span.status,
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * POST OTLP/JSON to a collector; a collector that doesn't answer within
+ * `timeoutMs` fails the export instead of stalling later ones
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  constructor(
+    private readonly url: string = DEFAULT_OTLP_ENDPOINT,
+    private readonly headers: Record<string, string> = {},
+    private readonly timeoutMs: number = DEFAULT_OTLP_TIMEOUT
+  ) {}
+
+  async export(spans: ReadableSpan[], resource: Record<string, AttributeValue>): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...this.headers },
+        body: JSON.stringify(toOtlpJson(spans, resource)),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new Error(`OTLP collector at ${this.url} did not respond within ${this.timeoutMs}ms`);
+      }
+      throw error;
+    }
+    if (!response.ok) {
+      throw new Error(`OTLP collector at ${this.url} responded ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Append one OTLP/JSON request per line; each line can be replayed to a
+ * collector as-is
+ */
+export class JsonFileExporter implements SpanExporter {
+  constructor(private readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async export(spans: ReadableSpan[], resource: Record<string, AttributeValue>): Promise<void> {
+    await fs.promises.appendFile(this.filePath, JSON.stringify(toOtlpJson(spans, resource)) + "\n");
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const tracer = new Tracer();
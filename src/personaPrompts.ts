@@ -0,0 +1,144 @@
+/**
+ * MCP prompts: every registered persona crossed with the analysis types
+ * (`charles-comprehensive`, `charles-advice`, `charles-review`,
+ * `charles-research`), plus templates a persona declares itself
+ * (`sentinel-threat-model`). prompts/get returns the messages the persona
+ * would send to the provider.
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { buildUserPrompt } from "./common/promptBuilder.js";
+import { PersonaRegistry, type Persona, type PersonaContext } from "./personas/types.js";
+import { ARCHITECT_SYSTEM_PROMPT } from "./prompts/architectPrompts.js";
+import { CODEADVICE_SYSTEM_PROMPT } from "./prompts/codeadvicePrompts.js";
+import { RESEARCHER_SYSTEM_PROMPT } from "./prompts/researcherPrompts.js";
+import { REVIEW_SYSTEM_PROMPT } from "./prompts/reviewPrompts.js";
+
+type AnalysisType = PersonaContext["analysisType"];
+
+interface AnalysisTemplate {
+  description: string;
+  systemPrompt: string;
+  /** Default task; without one the caller must supply it */
+  task?: string;
+}
+
+const ANALYSIS_TEMPLATES: Record<AnalysisType, AnalysisTemplate> = {
+  comprehensive: {
+    description: "architecture and design analysis",
+    systemPrompt: ARCHITECT_SYSTEM_PROMPT,
+  },
+  advice: {
+    description: "quick, actionable advice on code",
+    systemPrompt: CODEADVICE_SYSTEM_PROMPT,
+    task: "What should I change in this code?",
+  },
+  review: {
+    description: "code review with constructive feedback",
+    systemPrompt: REVIEW_SYSTEM_PROMPT,
+    task: "Review this code",
+  },
+  research: {
+    description: "research with source attribution",
+    systemPrompt: RESEARCHER_SYSTEM_PROMPT,
+  },
+};
+
+interface PromptEntry {
+  name: string;
+  description: string;
+  persona: Persona;
+  analysisType: AnalysisType;
+  task?: string;
+}
+
+function promptEntries(): PromptEntry[] {
+  return PersonaRegistry.list().flatMap((persona) => [
+    ...(Object.keys(ANALYSIS_TEMPLATES) as AnalysisType[]).map((analysisType) => ({
+      name: `${persona.id}-${analysisType}`,
+      description: `${persona.name}: ${ANALYSIS_TEMPLATES[analysisType].description}`,
+      persona,
+      analysisType,
+      task: ANALYSIS_TEMPLATES[analysisType].task,
+    })),
+    ...(persona.promptTemplates ?? []).map((template) => ({
+      name: `${persona.id}-${template.name}`,
+      description: `${persona.name}: ${template.description}`,
+      persona,
+      analysisType: template.analysisType,
+      task: template.task,
+    })),
+  ]);
+}
+
+/**
+ * Every persona prompt; templates with a default task need code to apply
+ * it to, the others need a task
+ */
+export function listPrompts(): Prompt[] {
+  return promptEntries().map(({ name, description, task }) => ({
+    name,
+    description,
+    arguments: [
+      {
+        name: "task",
+        description: task
+          ? `Question or instructions (default: "${task}")`
+          : "Question or instructions",
+        required: !task,
+      },
+      {
+        name: "code",
+        description: "Code or other context to analyze",
+        required: Boolean(task),
+      },
+    ],
+  }));
+}
+
+/**
+ * Assemble a prompt's messages: the persona-enhanced system prompt, then
+ * the persona-enhanced task with the code. MCP prompt messages have no
+ * system role, so both are user messages.
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const entry = promptEntries().find((candidate) => candidate.name === name);
+  if (!entry) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+  }
+
+  const { persona, analysisType } = entry;
+  const task = args.task || entry.task;
+  const code = args.code ?? "";
+  if (!task) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' requires the 'task' argument`);
+  }
+  if (entry.task && !code) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' requires the 'code' argument`);
+  }
+
+  const context: PersonaContext = { task, analysisType };
+  const systemPrompt = persona.enhanceSystemPrompt(
+    ANALYSIS_TEMPLATES[analysisType].systemPrompt,
+    context
+  );
+  const userPrompt = buildUserPrompt({
+    task: persona.enhanceUserPrompt(task, context),
+    code,
+    analysisType,
+  });
+
+  return {
+    description: entry.description,
+    messages: [
+      { role: "user", content: { type: "text", text: systemPrompt } },
+      { role: "user", content: { type: "text", text: userPrompt } },
+    ],
+  };
+}
@@ -3,7 +3,12 @@
  * Mission: Build in security and privacy from the outset, enabling speed without handing keys to attackers.
  */
 
-import { BasePersona, PersonaContext, PersonaTraits } from "../types.js";
+import {
+  BasePersona,
+  PersonaContext,
+  PersonaPromptTemplate,
+  PersonaTraits,
+} from "../types.js";
 
 const sentinelTraits: PersonaTraits = {
   personality:
@@ -43,6 +48,15 @@ const sentinelTraits: PersonaTraits = {
 };
 
 export class SentinelPersona extends BasePersona {
+  promptTemplates: PersonaPromptTemplate[] = [
+    {
+      name: "threat-model",
+      description: "Threat model a system or change: assets, trust boundaries, threats and controls",
+      analysisType: "review",
+      task: "Threat model this: list assumptions and assets, map trust boundaries, rate STRIDE threats, and give the controls and tests that close each one",
+    },
+  ];
+
   constructor() {
     super(
       "sentinel",
@@ -66,7 +66,17 @@ export interface PersonaContext {
   userConstraints?: string;
   
   /** Override provider for this request */
-  providerOverride?: "xai" | "openai";
+  providerOverride?: "xai" | "openai" | "sampling";
+}
+
+/** A ready-made task a persona offers as an MCP prompt */
+export interface PersonaPromptTemplate {
+  /** Appended to the persona id, e.g. `threat-model` -> `sentinel-threat-model` */
+  name: string;
+  description: string;
+  analysisType: PersonaContext["analysisType"];
+  /** Task sent when the caller doesn't give one */
+  task: string;
 }
 
 export interface Persona {
@@ -93,6 +103,9 @@ export interface Persona {
   
   /** Format response according to output preferences */
   formatOutput?(response: string, context: PersonaContext): string;
+
+  /** Extra MCP prompts beyond the standard analysis types */
+  promptTemplates?: PersonaPromptTemplate[];
 }
 
 export abstract class BasePersona implements Persona {
@@ -154,6 +167,10 @@ export class PersonaRegistry {
     this.personas.set(persona.id, persona);
   }
   
+  static unregister(id: string): boolean {
+    return this.personas.delete(id);
+  }
+  
   static get(id: string): Persona | undefined {
     return this.personas.get(id);
   }
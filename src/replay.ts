@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+/**
+ * Replay an event log written by EventLogSink as per-request timelines
+ *
+ *   coding-mcp-replay <events.jsonl> [--request <id>] [--tool <name>]
+ *                     [--slowest <n>] [--failed]
+ */
+
+import { readFlag } from "./common/cliArgs.js";
+import {
+  buildRequestTimelines,
+  formatTimeline,
+  readEventLog,
+} from "./infra/eventLog.js";
+
+const VALUE_FLAGS = ["--request", "--tool", "--slowest"];
+
+function main() {
+  const argv = process.argv.slice(2);
+  const filePath = argv.find(
+    (arg, index) => !arg.startsWith("--") && !VALUE_FLAGS.includes(argv[index - 1])
+  );
+  if (!filePath) {
+    console.error("Usage: coding-mcp-replay <events.jsonl> [--request <id>] [--tool <name>] [--slowest <n>] [--failed]");
+    process.exit(1);
+  }
+
+  const requestId = readFlag(argv, "request");
+  const tool = readFlag(argv, "tool");
+  const slowest = readFlag(argv, "slowest");
+
+  let timelines = buildRequestTimelines(readEventLog(filePath)).filter(
+    (timeline) =>
+      (!requestId || timeline.requestId === requestId) &&
+      (!tool || timeline.tool === tool) &&
+      (!argv.includes("--failed") || timeline.success === false)
+  );
+
+  if (slowest) {
+    timelines = timelines
+      .sort((a, b) => (b.durationMs ?? 0) - (a.durationMs ?? 0))
+      .slice(0, Number(slowest));
+  }
+
+  if (timelines.length === 0) {
+    console.log("No matching requests");
+    return;
+  }
+  console.log(timelines.map(formatTimeline).join("\n\n"));
+}
+
+main();
@@ -0,0 +1,132 @@
+/**
+ * MCP resources clients can attach as context
+ *   - persona://<id>        persona traits, expertise and example queries
+ *   - prompt://<tool>       a tool's base system prompt
+ *   - result://<requestId>  a recent tool result of the same session, kept
+ *                           by the ResultStore
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  type Resource,
+  type ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import type { ResultStore } from "./core/ResultStore.js";
+import { PersonaRegistry } from "./personas/types.js";
+import { ARCHITECT_SYSTEM_PROMPT } from "./prompts/architectPrompts.js";
+import { CODEADVICE_SYSTEM_PROMPT } from "./prompts/codeadvicePrompts.js";
+import { RESEARCHER_SYSTEM_PROMPT } from "./prompts/researcherPrompts.js";
+import { getExampleQueries } from "./tools/discover.js";
+
+/**
+ * System prompts by the tool that uses them
+ */
+export const SYSTEM_PROMPTS: Record<string, string> = {
+  architect: ARCHITECT_SYSTEM_PROMPT,
+  "code-advice": CODEADVICE_SYSTEM_PROMPT,
+  researcher: RESEARCHER_SYSTEM_PROMPT,
+};
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "persona://{id}",
+    name: "Persona",
+    description: "A persona's traits, expertise and example queries",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "prompt://{tool}",
+    name: "System prompt",
+    description: `Base system prompt of ${Object.keys(SYSTEM_PROMPTS).join(", ")}`,
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "result://{requestId}",
+    name: "Tool result",
+    description: "Full text of a recent tool result",
+    mimeType: "text/markdown",
+  },
+];
+
+const URI_PATTERN = /^(persona|prompt|result):\/\/(.+)$/;
+
+export interface ResourceDeps {
+  results: ResultStore;
+  /** Session asking; only its own results are listed and readable */
+  sessionId?: string;
+}
+
+/**
+ * Every concrete resource: registered personas, system prompts and the
+ * session's results still held by the store (newest first)
+ */
+export function listResources({ results, sessionId }: ResourceDeps): Resource[] {
+  return [
+    ...PersonaRegistry.list().map((persona) => ({
+      uri: `persona://${persona.id}`,
+      name: persona.name,
+      description: persona.description,
+      mimeType: "application/json",
+    })),
+    ...Object.keys(SYSTEM_PROMPTS).map((tool) => ({
+      uri: `prompt://${tool}`,
+      name: `${tool} system prompt`,
+      mimeType: "text/markdown",
+    })),
+    ...results.list(sessionId).map((result) => ({
+      uri: `result://${result.requestId}`,
+      name: `${result.tool} result ${result.requestId}`,
+      description: `Generated ${new Date(result.createdAt).toISOString()}`,
+      mimeType: "text/markdown",
+      size: Buffer.byteLength(result.text),
+    })),
+  ];
+}
+
+/**
+ * Read one resource; unknown or expired URIs, and other sessions' results,
+ * are an InvalidParams error
+ */
+export function readResource(
+  uri: string,
+  { results, sessionId }: ResourceDeps
+): ReadResourceResult {
+  const [, scheme, id] = URI_PATTERN.exec(uri) ?? [];
+
+  if (scheme === "persona") {
+    const persona = PersonaRegistry.get(id);
+    if (persona) {
+      const { traits } = persona;
+      const body = {
+        id: persona.id,
+        name: persona.name,
+        description: persona.description,
+        personality: traits.personality,
+        expertise: traits.expertise,
+        communicationStyle: traits.communicationStyle,
+        quirks: traits.quirks,
+        preferredProvider: traits.preferredProvider,
+        exampleQueries: getExampleQueries(persona.id),
+      };
+      return {
+        contents: [{ uri, mimeType: "application/json", text: JSON.stringify(body, null, 2) }],
+      };
+    }
+  }
+
+  if (scheme === "prompt" && Object.hasOwn(SYSTEM_PROMPTS, id)) {
+    return { contents: [{ uri, mimeType: "text/markdown", text: SYSTEM_PROMPTS[id] }] };
+  }
+
+  if (scheme === "result") {
+    const result = results.get(id, sessionId);
+    if (result) {
+      return { contents: [{ uri, mimeType: "text/markdown", text: result.text }] };
+    }
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+}
@@ -0,0 +1,192 @@
+/**
+ * MCP server factory
+ * Each connected session gets its own Server instance, while the tool
+ * registry, dispatcher and result store are shared across sessions
+ * (each session only sees its own results)
+ */
+
+import { randomUUID } from "crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  CreateMessageResultSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import type { ToolRegistry } from "./core/ToolRegistry.js";
+import type { MCPToolResponse, Sampler } from "./core/ToolCommand.js";
+import type { DispatchOptions } from "./core/CommandDispatcher.js";
+import { buildInputSchema } from "./core/inputSchema.js";
+import { ResultStore } from "./core/ResultStore.js";
+import { listResources, readResource, RESOURCE_TEMPLATES } from "./resources.js";
+import { getPrompt, listPrompts } from "./personaPrompts.js";
+import { eventBus as defaultEventBus, type EventBus } from "./infra/eventBus.js";
+
+export const SERVER_NAME = "cursor-tools";
+export const SERVER_VERSION = "2.0.5";
+
+export interface McpServerDeps {
+  registry: ToolRegistry;
+  dispatch: (
+    request: CallToolRequest,
+    options?: DispatchOptions
+  ) => Promise<MCPToolResponse>;
+  /** Source of reload and enable/disable events that trigger tools/list_changed */
+  eventBus?: EventBus;
+  /** Recent results served as result://<requestId>; the dispatcher's store */
+  results?: ResultStore;
+}
+
+/**
+ * Create a Server wired to the shared registry and dispatcher
+ */
+export function createMcpServer({
+  registry,
+  dispatch,
+  eventBus = defaultEventBus,
+  results = new ResultStore(),
+}: McpServerDeps): Server {
+  const server = new Server(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: {},
+        prompts: { listChanged: true },
+      },
+    }
+  );
+  // One Server per session, so this scopes stored results to the session
+  const sessionId = randomUUID();
+
+  // Define the list of tools from the registry; older versions are listed
+  // as name_v<major> so prompts written against them keep working
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: registry.listCallable().map(({ name, tool, deprecation }) => ({
+        name,
+        description: deprecation
+          ? `[Deprecated] ${deprecation} ${tool.description}`
+          : tool.description,
+        inputSchema: buildInputSchema(tool),
+      })),
+    };
+  });
+
+  // Route tool calls through the dispatcher; the SDK aborts extra.signal
+  // when the client sends notifications/cancelled
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) => {
+    const progressToken = request.params._meta?.progressToken;
+    const priority = request.params._meta?.priority;
+
+    // Provider calls can use the client's own model (the sampling provider)
+    const sample: Sampler | undefined = server.getClientCapabilities()?.sampling
+      ? async ({ systemPrompt, prompt, maxTokens, signal }) => {
+          const result = await extra.sendRequest(
+            {
+              method: "sampling/createMessage",
+              params: {
+                systemPrompt,
+                messages: [{ role: "user", content: { type: "text", text: prompt } }],
+                maxTokens,
+                includeContext: "none",
+              },
+            },
+            CreateMessageResultSchema,
+            { signal }
+          );
+          if (result.content.type !== "text") {
+            throw new Error(`Client returned ${result.content.type} content instead of text`);
+          }
+          return { text: result.content.text, model: result.model };
+        }
+      : undefined;
+
+    return dispatch(request, {
+      sample,
+      sessionId,
+      signal: extra.signal,
+      priority: typeof priority === "number" ? priority : undefined,
+      // Only report progress when the client asked for it
+      onProgress:
+        progressToken === undefined
+          ? undefined
+          : ({ progress, total, message }) => {
+              extra
+                .sendNotification({
+                  method: "notifications/progress",
+                  params: { progressToken, progress, total, message },
+                })
+                .catch((error) =>
+                  console.error("Failed to send progress notification:", error)
+                );
+            },
+    });
+  });
+
+  // Personas, system prompts and recent results as attachable context
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listResources({ results, sessionId }),
+  }));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+    readResource(request.params.uri, { results, sessionId })
+  );
+
+  // Persona x analysis type prompts for slash-command pickers
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(),
+  }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(request.params.name, request.params.arguments)
+  );
+
+  // Tell the client to re-fetch tools after a hot reload or when tools are
+  // enabled/disabled; a cascade of changes sends one notification
+  let notifyPending = false;
+  const notifyListChanged = () => {
+    if (notifyPending) return;
+    notifyPending = true;
+    queueMicrotask(() => {
+      notifyPending = false;
+      server.sendToolListChanged().catch(() => {
+        // Not connected yet, or already closed
+      });
+    });
+  };
+  const unsubscribers = [
+    eventBus.on(
+      "registry:reload",
+      ({ personas, error }) => {
+        if (error) return;
+        notifyListChanged();
+        // Reloaded personas may change their prompts
+        if (personas.length > 0) {
+          server.sendPromptListChanged().catch(() => {
+            // Not connected yet, or already closed
+          });
+        }
+      },
+      "McpServer"
+    ),
+    eventBus.on("tool:enabled", notifyListChanged, "McpServer"),
+    eventBus.on("tool:disabled", notifyListChanged, "McpServer"),
+  ];
+  server.onclose = () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    results.dropSession(sessionId);
+  };
+
+  return server;
+}
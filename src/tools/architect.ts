@@ -6,6 +6,11 @@ import {
   type ReasoningEffort,
 } from "../common/providerConfig.js";
 import { ARCHITECT_SYSTEM_PROMPT } from "../prompts/architectPrompts.js";
+import type {
+  MCPToolResponse,
+  ToolCommand,
+  ToolRunContext,
+} from "../core/ToolCommand.js";
 
 /**
  * Architect tool
@@ -19,13 +24,18 @@ export const architectToolDescription =
   "Conducts comprehensive architectural reviews and generates detailed improvement plans for codebases.";
 
 export const ArchitectToolSchema = z.object({
-  task: z.string().min(1, "Task description is required."),
+  task: z
+    .string()
+    .min(1, "Task description is required.")
+    .describe("Description of the task"),
   code: z
     .string()
-    .min(1, "Code string is required (one or more files concatenated)."),
+    .min(1, "Code string is required (one or more files concatenated).")
+    .describe("Concatenated code from one or more files"),
   reasoning_effort: z
     .enum(["low", "medium", "high"])
     .optional()
+    .default("high")
     .describe(
       "How hard the model should think (low/medium/high). High uses more reasoning tokens but provides better analysis."
     ),
@@ -38,53 +48,67 @@ export const ArchitectToolSchema = z.object({
 });
 
 export async function runArchitectTool(
-  args: z.infer<typeof ArchitectToolSchema>
-) {
+  args: z.infer<typeof ArchitectToolSchema>,
+  runContext: ToolRunContext = {}
+): Promise<MCPToolResponse> {
   const { task, code, reasoning_effort = "high", persona } = args;
 
-  try {
-    // Use persona-aware client if persona is specified
-    const result = persona
-      ? await callAIWithPersona({
+  // Use persona-aware client if persona is specified
+  const result = persona
+    ? await callAIWithPersona({
+        systemPrompt: ARCHITECT_SYSTEM_PROMPT,
+        task,
+        code,
+        analysisType: "comprehensive",
+        reasoningEffort: reasoning_effort as ReasoningEffort,
+        personaId: persona,
+        toolName: architectToolName,
+        signal: runContext.signal,
+        progress: runContext.progress,
+        sample: runContext.sample,
+      })
+    : await (async () => {
+        const selectedProvider = chooseProvider({
+          analysisType: "comprehensive",
+          reasoningEffort: reasoning_effort as ReasoningEffort,
+          textHint: task,
+        });
+        return callAIProvider({
           systemPrompt: ARCHITECT_SYSTEM_PROMPT,
           task,
           code,
           analysisType: "comprehensive",
           reasoningEffort: reasoning_effort as ReasoningEffort,
-          personaId: persona,
-        })
-      : await (async () => {
-          const selectedProvider = chooseProvider({
-            analysisType: "comprehensive",
-            reasoningEffort: reasoning_effort as ReasoningEffort,
-            textHint: task,
-          });
-          return callAIProvider({
-            systemPrompt: ARCHITECT_SYSTEM_PROMPT,
-            task,
-            code,
-            analysisType: "comprehensive",
-            reasoningEffort: reasoning_effort as ReasoningEffort,
-            provider: selectedProvider,
-          });
-        })();
+          provider: selectedProvider,
+          signal: runContext.signal,
+          progress: runContext.progress,
+          sample: runContext.sample,
+        });
+      })();
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: result,
-        },
-      ],
-    };
-  } catch (error: any) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Architect Error: ${error.message || error}`,
-        },
-      ],
-    };
-  }
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+  };
 }
+
+export const architectTool: ToolCommand<
+  z.infer<typeof ArchitectToolSchema>,
+  MCPToolResponse
+> = {
+  name: architectToolName,
+  description: architectToolDescription,
+  schema: ArchitectToolSchema,
+  version: "1.0.0",
+  metadata: {
+    category: "analysis",
+    tags: ["ai", "persona"],
+    // High reasoning effort can take several minutes
+    constraints: { maxExecutionTime: 600000 },
+  },
+  execute: (args, context) => runArchitectTool(args, context),
+};
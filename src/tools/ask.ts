@@ -3,6 +3,12 @@ import { classifyQuery, explainRouting } from "../personas/router.js";
 import { PersonaRegistry } from "../personas/types.js";
 import { callAIWithPersona } from "../common/personaClient.js";
 import { type ReasoningEffort } from "../common/providerConfig.js";
+import {
+  ToolValidationError,
+  type MCPToolResponse,
+  type ToolCommand,
+  type ToolRunContext,
+} from "../core/ToolCommand.js";
 
 /**
  * Ask tool - Smart routing to the best persona based on query analysis
@@ -44,16 +50,20 @@ export const AskToolSchema = z.object({
   reasoning_effort: z
     .union([z.literal("low"), z.literal("medium"), z.literal("high")])
     .optional()
+    .default("medium")
     .describe("How thoroughly to think about the answer"),
   provider: z
-    .union([z.literal("xai"), z.literal("openai")])
+    .union([z.literal("xai"), z.literal("openai"), z.literal("sampling")])
     .optional()
     .describe(
-      "Optional provider override; defaults to persona preference or heuristic"
+      "Optional provider override; defaults to persona preference or heuristic. 'sampling' uses the client's own model"
     ),
 });
 
-export async function runAskTool(args: z.infer<typeof AskToolSchema>) {
+export async function runAskTool(
+  args: z.infer<typeof AskToolSchema>,
+  runContext: ToolRunContext = {}
+): Promise<MCPToolResponse> {
   const {
     persona_id = "auto",
     query,
@@ -106,64 +116,73 @@ export async function runAskTool(args: z.infer<typeof AskToolSchema>) {
 
   // Get the selected persona
   const persona = PersonaRegistry.get(selectedPersonaId);
+  if (persona) {
+    runContext.progress?.({ message: `routed to ${persona.name}` });
+  }
 
   if (!persona) {
-    // Shouldn't happen but handle gracefully
-    return {
-      content: [
-        {
-          type: "text",
-          text: "No suitable expert found. Please use the 'discover' tool to see available personas.",
-        },
-      ],
-    };
+    // Only an unknown explicit persona_id gets here
+    throw new ToolValidationError(
+      askToolName,
+      `No expert named '${selectedPersonaId}' found`,
+      undefined,
+      { remediation: "Use the 'discover' tool to see available personas, or pass persona_id: 'auto'" }
+    );
   }
 
-  try {
-    // Build response with optional routing explanation
-    let response = "";
+  // Build response with optional routing explanation
+  let response = "";
 
-    if (explain_routing) {
-      const explanation = classification
-        ? explainRouting(classification)
-        : `Using your selected expert: ${persona.name}.`;
-      response += `*${explanation}*\n\n---\n\n`;
-    }
+  if (explain_routing) {
+    const explanation = classification
+      ? explainRouting(classification)
+      : `Using your selected expert: ${persona.name}.`;
+    response += `*${explanation}*\n\n---\n\n`;
+  }
 
-    // Simple system prompt for natural conversation
-    const systemPrompt = `You are having a natural conversation with the user, providing expert guidance based on your knowledge and experience.
+  // Simple system prompt for natural conversation
+  const systemPrompt = `You are having a natural conversation with the user, providing expert guidance based on your knowledge and experience.
     
 Answer their question directly and helpfully while maintaining your personality.`;
 
-    // Call the persona
-    const personaResponse = await callAIWithPersona({
-      systemPrompt,
-      task: cleanedQuery,
-      code: context,
-      analysisType: "advice", // Default to advice for ask tool
-      reasoningEffort: (reasoning_effort || "medium") as ReasoningEffort,
-      personaId: persona.id,
-      providerOverride: provider,
-    });
-
-    response += personaResponse;
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: response,
-        },
-      ],
-    };
-  } catch (error: any) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error consulting ${persona.name}: ${error.message || error}`,
-        },
-      ],
-    };
-  }
+  // Call the persona
+  const personaResponse = await callAIWithPersona({
+    systemPrompt,
+    task: cleanedQuery,
+    code: context,
+    analysisType: "advice", // Default to advice for ask tool
+    reasoningEffort: (reasoning_effort || "medium") as ReasoningEffort,
+    personaId: persona.id,
+    providerOverride: provider,
+    signal: runContext.signal,
+    progress: runContext.progress,
+    sample: runContext.sample,
+  });
+
+  response += personaResponse;
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: response,
+      },
+    ],
+  };
 }
+
+export const askTool: ToolCommand<
+  z.infer<typeof AskToolSchema>,
+  MCPToolResponse
+> = {
+  name: askToolName,
+  description: askToolDescription,
+  schema: AskToolSchema,
+  version: "1.0.0",
+  metadata: {
+    category: "persona",
+    tags: ["ai", "persona", "routing"],
+    constraints: { maxExecutionTime: 300000 },
+  },
+  execute: (args, context) => runAskTool(args, context),
+};
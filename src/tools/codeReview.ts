@@ -1,5 +1,10 @@
 import { z } from "zod";
 import { execSync } from "child_process";
+import {
+  ToolExecutionError,
+  type MCPToolResponse,
+  type ToolCommand,
+} from "../core/ToolCommand.js";
 
 /**
  * CodeReview tool
@@ -12,12 +17,17 @@ export const codeReviewToolDescription =
   "Run a git diff against main on a specified file and provide instructions to review/fix issues.";
 
 export const CodeReviewToolSchema = z.object({
-  folderPath: z.string().min(1, "A folder path is required."),
+  folderPath: z
+    .string()
+    .min(1, "A folder path is required.")
+    .describe(
+      "Path to the full root directory of the repository to diff against main"
+    ),
 });
 
 export async function runCodeReviewTool(
   args: z.infer<typeof CodeReviewToolSchema>,
-) {
+): Promise<MCPToolResponse> {
   const { folderPath } = args;
 
   let diffOutput = "";
@@ -26,8 +36,13 @@ export async function runCodeReviewTool(
       encoding: "utf-8",
     });
   } catch (error) {
-    // If there's an error (e.g., no git repo, or the file doesn't exist), include it in the response.
-    diffOutput = `Error running git diff: ${error}`;
+    // e.g. not a git repo, or the folder doesn't exist
+    throw new ToolExecutionError(
+      codeReviewToolName,
+      `git diff failed in ${folderPath}`,
+      error instanceof Error ? error : undefined,
+      { remediation: "Pass the root directory of a git repository as folderPath" }
+    );
   }
 
   const instructions =
@@ -44,3 +59,18 @@ export async function runCodeReviewTool(
     ],
   };
 }
+
+export const codeReviewTool: ToolCommand<
+  z.infer<typeof CodeReviewToolSchema>,
+  MCPToolResponse
+> = {
+  name: codeReviewToolName,
+  description: codeReviewToolDescription,
+  schema: CodeReviewToolSchema,
+  version: "1.0.0",
+  metadata: {
+    category: "utility",
+    tags: ["git"],
+  },
+  execute: (args) => runCodeReviewTool(args),
+};
@@ -1,10 +1,16 @@
 import { z } from "zod";
 import { callAIProvider } from "../common/apiClient.js";
+import { callAIWithPersona } from "../common/personaClient.js";
 import {
   chooseProvider,
   type ReasoningEffort,
 } from "../common/providerConfig.js";
 import { CODEADVICE_SYSTEM_PROMPT } from "../prompts/codeadvicePrompts.js";
+import type {
+  MCPToolResponse,
+  ToolCommand,
+  ToolRunContext,
+} from "../core/ToolCommand.js";
 
 /**
  * CodeAdvice tool
@@ -18,53 +24,90 @@ export const codeAdviceToolDescription =
   "Provides quick, focused coding guidance and immediate solutions for specific problems.";
 
 export const CodeAdviceToolSchema = z.object({
-  task: z.string().min(1, "Task description is required."),
-  code: z.string().min(1, "Code string is required."),
+  task: z
+    .string()
+    .min(1, "Task description is required.")
+    .describe("Description of the problem or advice needed"),
+  code: z
+    .string()
+    .min(1, "Code string is required.")
+    .describe("Relevant code snippet"),
   reasoning_effort: z
     .enum(["low", "medium", "high"])
     .optional()
+    .default("medium")
     .describe(
       "How hard the model should think (low/medium/high). Defaults to medium for quick advice."
     ),
+  persona: z
+    .string()
+    .optional()
+    .describe(
+      "Persona to apply (e.g., 'xavier' for MVP-first advice). Leave empty for standard advice."
+    ),
 });
 
 export async function runCodeAdviceTool(
-  args: z.infer<typeof CodeAdviceToolSchema>
-) {
-  const { task, code, reasoning_effort = "medium" } = args;
+  args: z.infer<typeof CodeAdviceToolSchema>,
+  runContext: ToolRunContext = {}
+): Promise<MCPToolResponse> {
+  const { task, code, reasoning_effort = "medium", persona } = args;
 
-  try {
-    const selectedProvider = chooseProvider({
-      analysisType: "advice",
-      reasoningEffort: reasoning_effort as ReasoningEffort,
-      textHint: task,
-    });
+  // Use persona-aware client if persona is specified
+  const result = persona
+    ? await callAIWithPersona({
+        systemPrompt: CODEADVICE_SYSTEM_PROMPT,
+        task,
+        code,
+        analysisType: "advice",
+        reasoningEffort: reasoning_effort as ReasoningEffort,
+        personaId: persona,
+        toolName: codeAdviceToolName,
+        signal: runContext.signal,
+        progress: runContext.progress,
+        sample: runContext.sample,
+      })
+    : await (async () => {
+        const selectedProvider = chooseProvider({
+          analysisType: "advice",
+          reasoningEffort: reasoning_effort as ReasoningEffort,
+          textHint: task,
+        });
+        return callAIProvider({
+          systemPrompt: CODEADVICE_SYSTEM_PROMPT,
+          task,
+          code,
+          analysisType: "advice",
+          reasoningEffort: reasoning_effort as ReasoningEffort,
+          provider: selectedProvider,
+          signal: runContext.signal,
+          progress: runContext.progress,
+          sample: runContext.sample,
+        });
+      })();
 
-    const result = await callAIProvider({
-      systemPrompt: CODEADVICE_SYSTEM_PROMPT,
-      task,
-      code,
-      analysisType: "advice",
-      reasoningEffort: reasoning_effort as ReasoningEffort,
-      provider: selectedProvider,
-    });
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: result,
-        },
-      ],
-    };
-  } catch (error: any) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `CodeAdvice Error: ${error.message || error}`,
-        },
-      ],
-    };
-  }
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+  };
 }
+
+export const codeAdviceTool: ToolCommand<
+  z.infer<typeof CodeAdviceToolSchema>,
+  MCPToolResponse
+> = {
+  name: codeAdviceToolName,
+  description: codeAdviceToolDescription,
+  schema: CodeAdviceToolSchema,
+  version: "1.0.0",
+  metadata: {
+    category: "analysis",
+    tags: ["ai"],
+    constraints: { maxExecutionTime: 300000 },
+  },
+  execute: (args, context) => runCodeAdviceTool(args, context),
+};
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { PersonaRegistry } from "../personas/types.js";
+import type { MCPToolResponse, ToolCommand } from "../core/ToolCommand.js";
 
 /**
  * Discover tool - List and explore available personas
@@ -45,7 +46,7 @@ interface PersonaInfo {
 /**
  * Get example queries for each persona
  */
-function getExampleQueries(personaId: string): string[] {
+export function getExampleQueries(personaId: string): string[] {
   const examples: Record<string, string[]> = {
     charles: [
       "How should I structure this for a startup moving fast?",
@@ -184,7 +185,7 @@ function getPersonaCategory(persona: any): string {
 
 export async function runDiscoverTool(
   args: z.infer<typeof DiscoverToolSchema>
-) {
+): Promise<MCPToolResponse> {
   const { category, verbose } = args;
 
   // Get all registered personas
@@ -286,3 +287,18 @@ export async function runDiscoverTool(
     ],
   };
 }
+
+export const discoverTool: ToolCommand<
+  z.infer<typeof DiscoverToolSchema>,
+  MCPToolResponse
+> = {
+  name: discoverToolName,
+  description: discoverToolDescription,
+  schema: DiscoverToolSchema,
+  version: "1.0.0",
+  metadata: {
+    category: "persona",
+    tags: ["persona"],
+  },
+  execute: (args) => runDiscoverTool(args),
+};
@@ -0,0 +1,25 @@
+/**
+ * Built-in tool commands shipped with the server
+ * Registered with the ToolRegistry at startup
+ */
+
+import type { ToolCommand } from "../core/ToolCommand.js";
+import { screenshotTool } from "./screenshot.js";
+import { architectTool } from "./architect.js";
+import { codeReviewTool } from "./codeReview.js";
+import { codeAdviceTool } from "./codeadvice.js";
+import { researcherTool } from "./researcher.js";
+import { personaTool } from "./persona.js";
+import { askTool } from "./ask.js";
+import { discoverTool } from "./discover.js";
+
+export const builtinTools: ToolCommand[] = [
+  screenshotTool,
+  architectTool,
+  codeReviewTool,
+  codeAdviceTool,
+  researcherTool,
+  personaTool,
+  askTool,
+  discoverTool,
+];
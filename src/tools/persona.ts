@@ -2,6 +2,12 @@ import { z } from "zod";
 import { callAIWithPersona } from "../common/personaClient.js";
 import { type ReasoningEffort } from "../common/providerConfig.js";
 import { PersonaRegistry } from "../personas/types.js";
+import {
+  ToolValidationError,
+  type MCPToolResponse,
+  type ToolCommand,
+  type ToolRunContext,
+} from "../core/ToolCommand.js";
 
 /**
  * Persona tool - Direct interaction with registered personas
@@ -71,7 +77,10 @@ export const PersonaToolSchema = z.object({
     ),
 });
 
-export async function runPersonaTool(args: z.infer<typeof PersonaToolSchema>) {
+export async function runPersonaTool(
+  args: z.infer<typeof PersonaToolSchema>,
+  runContext: ToolRunContext = {}
+): Promise<MCPToolResponse> {
   const {
     persona_id,
     query,
@@ -91,55 +100,61 @@ export async function runPersonaTool(args: z.infer<typeof PersonaToolSchema>) {
     const available = PersonaRegistry.list()
       .map((p) => p.id)
       .join(", ");
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Persona '${persona_id}' not found. Available personas: ${
-            available || "none registered"
-          }`,
-        },
-      ],
-    };
+    throw new ToolValidationError(
+      personaToolName,
+      `Persona '${persona_id}' not found. Available personas: ${
+        available || "none registered"
+      }`,
+      undefined,
+      { remediation: "Use the 'discover' tool to list personas" }
+    );
   }
 
-  try {
-    // Build a simple system prompt for persona interaction
-    const systemPrompt = `You are having a conversation with the user, providing your expertise and guidance.
+  // Build a simple system prompt for persona interaction
+  const systemPrompt = `You are having a conversation with the user, providing your expertise and guidance.
     
 Your role is to be helpful while maintaining your distinct personality and expertise.
 Respond naturally and directly to their query.`;
 
-    const result = await callAIWithPersona({
-      systemPrompt,
-      task: query,
-      code: context,
-      analysisType: analysis_type,
-      reasoningEffort: reasoning_effort as ReasoningEffort,
-      personaId: persona_id,
-      toneStyle: tone_style,
-      outputFormat: output_format,
-      audienceLevel: audience_level,
-      includeDiagrams: include_diagrams,
-      userConstraints: user_constraints,
-    });
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: result,
-        },
-      ],
-    };
-  } catch (error: any) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error calling ${persona.name}: ${error.message || error}`,
-        },
-      ],
-    };
-  }
+  const result = await callAIWithPersona({
+    systemPrompt,
+    task: query,
+    code: context,
+    analysisType: analysis_type,
+    reasoningEffort: reasoning_effort as ReasoningEffort,
+    personaId: persona_id,
+    toneStyle: tone_style,
+    outputFormat: output_format,
+    audienceLevel: audience_level,
+    includeDiagrams: include_diagrams,
+    userConstraints: user_constraints,
+    signal: runContext.signal,
+    progress: runContext.progress,
+    sample: runContext.sample,
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+  };
 }
+
+export const personaTool: ToolCommand<
+  z.infer<typeof PersonaToolSchema>,
+  MCPToolResponse
+> = {
+  name: personaToolName,
+  description: personaToolDescription,
+  schema: PersonaToolSchema,
+  version: "1.0.0",
+  metadata: {
+    category: "persona",
+    tags: ["ai", "persona"],
+    constraints: { maxExecutionTime: 300000 },
+  },
+  execute: (args, context) => runPersonaTool(args, context),
+};
@@ -5,6 +5,11 @@ import {
   type ReasoningEffort,
 } from "../common/providerConfig.js";
 import { RESEARCHER_SYSTEM_PROMPT } from "../prompts/researcherPrompts.js";
+import type {
+  MCPToolResponse,
+  ToolCommand,
+  ToolRunContext,
+} from "../core/ToolCommand.js";
 
 /**
  * Researcher tool
@@ -40,59 +45,72 @@ export interface ResearchResult {
   timestamp: string;
 }
 
+const SearchEngineSchema = z.enum([
+  "google",
+  "xai",
+  "arxiv",
+  "wikipedia",
+  "github",
+  "stackexchange",
+  "pubmed",
+  "semantic_scholar",
+]);
+
+export const ResearcherConfigSchema = z.object({
+  defaultEngines: z.array(SearchEngineSchema).min(1).default(["google", "xai"]),
+  maxResultsPerEngine: z.number().min(1).max(20).default(5),
+});
+
 export const ResearcherToolSchema = z.object({
-  query: z.string().min(1, "Research query is required."),
+  query: z
+    .string()
+    .min(1, "Research query is required.")
+    .describe("Research query to investigate"),
   search_engines: z
-    .array(
-      z.enum([
-        "google",
-        "xai",
-        "arxiv",
-        "wikipedia",
-        "github",
-        "stackexchange",
-        "pubmed",
-        "semantic_scholar",
-      ])
-    )
+    .array(SearchEngineSchema)
     .optional()
     .describe(
-      "Search engines to use. Defaults to ['google', 'xai']. Available: google, xai, arxiv, wikipedia, github, stackexchange, pubmed, semantic_scholar"
+      "Search engines to use. Defaults to the configured engines (google, xai unless overridden). Available: google, xai, arxiv, wikipedia, github, stackexchange, pubmed, semantic_scholar"
     ),
   max_results_per_engine: z
     .number()
     .min(1)
     .max(20)
     .optional()
-    .describe("Maximum results per search engine (1-20). Defaults to 5."),
+    .describe("Maximum results per search engine (1-20). Defaults to the configured value (5 unless overridden)."),
   deep_search: z
     .boolean()
     .optional()
+    .default(false)
     .describe(
       "Whether to perform deep search by following links and extracting full content. Defaults to false."
     ),
   include_academic: z
     .boolean()
     .optional()
+    .default(false)
     .describe(
       "Whether to prioritize academic sources (arxiv, pubmed, semantic_scholar). Defaults to false."
     ),
   reasoning_effort: z
     .enum(["low", "medium", "high"])
     .optional()
+    .default("high")
     .describe(
       "How hard the AI should think when synthesizing results (low/medium/high). Defaults to high for research."
     ),
   citation_style: z
     .enum(["apa", "mla", "chicago", "ieee", "inline"])
     .optional()
+    .default("inline")
     .describe("Citation style to use. Defaults to 'inline' for easy reading."),
 });
 
 // Search API implementations
 async function searchGoogle(
   query: string,
-  maxResults: number
+  maxResults: number,
+  signal?: AbortSignal
 ): Promise<Source[]> {
   // Google Custom Search API implementation
   // Note: Requires GOOGLE_API_KEY and GOOGLE_CSE_ID environment variables
@@ -108,7 +126,7 @@ async function searchGoogle(
     const url = `https://www.googleapis.com/customsearch/v1?key=${apiKey}&cx=${cseId}&q=${encodeURIComponent(
       query
     )}&num=${maxResults}`;
-    const response = await fetch(url);
+    const response = await fetch(url, { signal });
     const data = await response.json();
 
     return (data.items || []).map((item: any, index: number) => ({
@@ -126,7 +144,11 @@ async function searchGoogle(
   }
 }
 
-async function searchXAI(query: string, maxResults: number): Promise<Source[]> {
+async function searchXAI(
+  query: string,
+  maxResults: number,
+  signal?: AbortSignal
+): Promise<Source[]> {
   // X.AI/Perplexity API implementation
   // This would integrate with Perplexity or X.AI's search capabilities
   const apiKey = process.env.XAI_API_KEY || process.env.PERPLEXITY_API_KEY;
@@ -150,6 +172,7 @@ async function searchXAI(query: string, maxResults: number): Promise<Source[]> {
         search_depth: "comprehensive",
         include_sources: true,
       }),
+      signal,
     });
 
     const data = await response.json();
@@ -170,14 +193,15 @@ async function searchXAI(query: string, maxResults: number): Promise<Source[]> {
 
 async function searchArxiv(
   query: string,
-  maxResults: number
+  maxResults: number,
+  signal?: AbortSignal
 ): Promise<Source[]> {
   // ArXiv API implementation for academic papers
   try {
     const url = `http://export.arxiv.org/api/query?search_query=all:${encodeURIComponent(
       query
     )}&start=0&max_results=${maxResults}`;
-    const response = await fetch(url);
+    const response = await fetch(url, { signal });
     const text = await response.text();
 
     // Simple XML parsing (in production, use a proper XML parser)
@@ -216,14 +240,15 @@ async function searchArxiv(
 
 async function searchWikipedia(
   query: string,
-  maxResults: number
+  maxResults: number,
+  signal?: AbortSignal
 ): Promise<Source[]> {
   // Wikipedia API implementation
   try {
     const url = `https://en.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(
       query
     )}&format=json&srlimit=${maxResults}`;
-    const response = await fetch(url);
+    const response = await fetch(url, { signal });
     const data = await response.json();
 
     return (data.query?.search || []).map((item: any, index: number) => ({
@@ -245,7 +270,8 @@ async function searchWikipedia(
 
 async function searchGitHub(
   query: string,
-  maxResults: number
+  maxResults: number,
+  signal?: AbortSignal
 ): Promise<Source[]> {
   // GitHub API implementation for code/repository search
   const token = process.env.GITHUB_TOKEN;
@@ -257,7 +283,7 @@ async function searchGitHub(
     const url = `https://api.github.com/search/repositories?q=${encodeURIComponent(
       query
     )}&sort=stars&order=desc&per_page=${maxResults}`;
-    const response = await fetch(url, { headers });
+    const response = await fetch(url, { headers, signal });
     const data = await response.json();
 
     return (data.items || []).map((repo: any, index: number) => ({
@@ -278,14 +304,15 @@ async function searchGitHub(
 
 async function searchStackExchange(
   query: string,
-  maxResults: number
+  maxResults: number,
+  signal?: AbortSignal
 ): Promise<Source[]> {
   // StackExchange API implementation
   try {
     const url = `https://api.stackexchange.com/2.3/search/advanced?order=desc&sort=relevance&q=${encodeURIComponent(
       query
     )}&site=stackoverflow&pagesize=${maxResults}`;
-    const response = await fetch(url);
+    const response = await fetch(url, { signal });
     const data = await response.json();
 
     return (data.items || []).map((item: any, index: number) => ({
@@ -333,72 +360,98 @@ function formatCitation(source: Source, style: string): string {
 
 // Main research function
 export async function runResearcherTool(
-  args: z.infer<typeof ResearcherToolSchema>
-) {
+  args: z.infer<typeof ResearcherToolSchema>,
+  runContext: ToolRunContext = {}
+): Promise<MCPToolResponse> {
+  const { signal, progress, config, sample } = runContext;
   const {
     query,
-    search_engines = ["google", "xai"],
-    max_results_per_engine = 5,
+    search_engines = config?.defaultEngines ?? ["google", "xai"],
+    max_results_per_engine = config?.maxResultsPerEngine ?? 5,
     deep_search = false,
     include_academic = false,
     reasoning_effort = "high",
     citation_style = "inline",
   } = args;
 
-  try {
-    // Expand search engines if academic sources requested
-    let engines = [...search_engines];
-    if (include_academic && !engines.includes("arxiv")) {
-      engines.push("arxiv");
-    }
-    if (include_academic && !engines.includes("semantic_scholar")) {
-      engines.push("semantic_scholar");
-    }
-
-    // Perform searches in parallel
-    const searchPromises = engines.map(async (engine) => {
-      switch (engine) {
-        case "google":
-          return await searchGoogle(query, max_results_per_engine);
-        case "xai":
-          return await searchXAI(query, max_results_per_engine);
-        case "arxiv":
-          return await searchArxiv(query, max_results_per_engine);
-        case "wikipedia":
-          return await searchWikipedia(query, max_results_per_engine);
-        case "github":
-          return await searchGitHub(query, max_results_per_engine);
-        case "stackexchange":
-          return await searchStackExchange(query, max_results_per_engine);
-        default:
-          return [];
-      }
-    });
-
-    const searchResults = await Promise.all(searchPromises);
-    const allSources = searchResults.flat();
+  // Expand search engines if academic sources requested
+  let engines = [...search_engines];
+  if (include_academic && !engines.includes("arxiv")) {
+    engines.push("arxiv");
+  }
+  if (include_academic && !engines.includes("semantic_scholar")) {
+    engines.push("semantic_scholar");
+  }
 
-    // Create citations map
-    const citations = new Map<string, Source>();
-    allSources.forEach((source) => {
-      citations.set(source.id, source);
+  // Progress: a start and a finish step per engine, then synthesis and
+  // formatting (the dispatcher keeps every update strictly increasing)
+  const totalSteps = engines.length * 2 + 2;
+  let step = 0;
+  let completedEngines = 0;
+
+  // Perform searches in parallel
+  const searchPromises = engines.map(async (engine) => {
+    progress?.({ message: `searching ${engine}`, progress: ++step, total: totalSteps });
+    const sources = await searchEngine(engine);
+    completedEngines++;
+    progress?.({
+      message: `finished ${engine} (${completedEngines}/${engines.length})`,
+      progress: ++step,
+      total: totalSteps,
     });
+    return sources;
+  });
+
+  async function searchEngine(engine: string): Promise<Source[]> {
+    switch (engine) {
+      case "google":
+        return await searchGoogle(query, max_results_per_engine, signal);
+      case "xai":
+        return await searchXAI(query, max_results_per_engine, signal);
+      case "arxiv":
+        return await searchArxiv(query, max_results_per_engine, signal);
+      case "wikipedia":
+        return await searchWikipedia(query, max_results_per_engine, signal);
+      case "github":
+        return await searchGitHub(query, max_results_per_engine, signal);
+      case "stackexchange":
+        return await searchStackExchange(query, max_results_per_engine, signal);
+      default:
+        return [];
+    }
+  }
 
-    // Prepare source content for AI synthesis
-    const sourcesContent = allSources
-      .map(
-        (source) =>
-          `[${source.id}] ${source.title}\n${source.searchEngine} - ${source.url}\n${source.snippet}\n`
-      )
-      .join("\n---\n");
-
-    // Call AI provider for synthesis
-    const selectedProvider = chooseProvider({
-      analysisType: "research",
-      reasoningEffort: reasoning_effort as ReasoningEffort,
-      textHint: query,
-    });
-    const synthesisPrompt = `Research Query: ${query}
+  const searchResults = await Promise.all(searchPromises);
+  // Engines swallow their own errors, so check before paying for synthesis
+  signal?.throwIfAborted();
+  const allSources = searchResults.flat();
+
+  // Create citations map
+  const citations = new Map<string, Source>();
+  allSources.forEach((source) => {
+    citations.set(source.id, source);
+  });
+
+  // Prepare source content for AI synthesis
+  const sourcesContent = allSources
+    .map(
+      (source) =>
+        `[${source.id}] ${source.title}\n${source.searchEngine} - ${source.url}\n${source.snippet}\n`
+    )
+    .join("\n---\n");
+
+  // Call AI provider for synthesis
+  const selectedProvider = chooseProvider({
+    analysisType: "research",
+    reasoningEffort: reasoning_effort as ReasoningEffort,
+    textHint: query,
+  });
+  progress?.({
+    message: "synthesizing",
+    progress: ++step,
+    total: totalSteps,
+  });
+  const synthesisPrompt = `Research Query: ${query}
 
 Sources Found:
 ${sourcesContent}
@@ -411,22 +464,29 @@ Please synthesize these sources into a comprehensive research summary. Include:
 
 Citation Style: ${citation_style}`;
 
-    const synthesis = await callAIProvider({
-      systemPrompt: RESEARCHER_SYSTEM_PROMPT,
-      task: synthesisPrompt,
-      code: "", // Not needed for research
-      analysisType: "research",
-      reasoningEffort: reasoning_effort as ReasoningEffort,
-      provider: selectedProvider,
-    });
-
-    // Format citations
-    const formattedCitations = allSources
-      .map((source) => formatCitation(source, citation_style))
-      .join("\n");
-
-    // Compile final result
-    const result = `# Research Results for: "${query}"
+  const synthesis = await callAIProvider({
+    systemPrompt: RESEARCHER_SYSTEM_PROMPT,
+    task: synthesisPrompt,
+    code: "", // Not needed for research
+    analysisType: "research",
+    reasoningEffort: reasoning_effort as ReasoningEffort,
+    provider: selectedProvider,
+    signal,
+    sample,
+  });
+
+  // Format citations
+  progress?.({
+    message: "formatting citations",
+    progress: totalSteps,
+    total: totalSteps,
+  });
+  const formattedCitations = allSources
+    .map((source) => formatCitation(source, citation_style))
+    .join("\n");
+
+  // Compile final result
+  const result = `# Research Results for: "${query}"
 
 ## Summary
 ${synthesis}
@@ -444,22 +504,30 @@ ${engines.join(", ")}
 - Citation Style: ${citation_style}
 `;
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: result,
-        },
-      ],
-    };
-  } catch (error: any) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Research Error: ${error.message || error}`,
-        },
-      ],
-    };
-  }
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+  };
 }
+
+export const researcherTool: ToolCommand<
+  z.infer<typeof ResearcherToolSchema>,
+  MCPToolResponse
+> = {
+  name: researcherToolName,
+  description: researcherToolDescription,
+  schema: ResearcherToolSchema,
+  version: "1.0.0",
+  metadata: {
+    category: "research",
+    tags: ["ai", "network"],
+    // Multi-engine search plus synthesis at high reasoning effort
+    constraints: { maxExecutionTime: 600000 },
+    configSchema: ResearcherConfigSchema,
+  },
+  execute: (args, context) => runResearcherTool(args, context),
+};
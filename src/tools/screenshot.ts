@@ -1,44 +1,90 @@
-import puppeteer from "puppeteer"
+import puppeteer, { type Browser } from "puppeteer"
 import { z } from "zod"
 import path from "path"
 import fs from "fs"
+import {
+  ToolValidationError,
+  type MCPToolResponse,
+  type ToolCommand,
+  type ToolRunContext,
+} from "../core/ToolCommand.js"
 /**
  * Screenshot tool
- *   - Takes in either "url" (a full URL) or "relativePath" to open on localhost:3000
+ *   - Takes in either "url" (a full URL) or "relativePath" to open on the
+ *     configured base URL (localhost:3000 by default)
  *   - Returns a base64-encoded PNG screenshot
  */
 
 export const screenshotToolName = "screenshot"
 export const screenshotToolDescription =
-  "Take a screenshot of a URL or a local path (relative URL appended to http://localhost:3000)."
+  "Take a screenshot of a URL or a local path (relative URL appended to the configured base URL, http://localhost:3000 by default)."
+
+// Browsers still open, closed on unload so shutdown never leaks Chromium
+const openBrowsers = new Set<Browser>()
+
+export const ScreenshotConfigSchema = z.object({
+  baseUrl: z.string().url().default("http://localhost:3000"),
+})
 
 export const ScreenshotToolSchema = z.object({
-  url: z.string().optional(),
-  relativePath: z.string().optional(),
-  fullPathToScreenshot: z.string(),
+  url: z.string().optional().describe("Full URL to screenshot"),
+  relativePath: z
+    .string()
+    .optional()
+    .describe("Relative path appended to the configured base URL"),
+  fullPathToScreenshot: z
+    .string()
+    .describe(
+      "Path to where the screenshot file should be saved. This should be a cwd-style full path to the file (not relative to the current working directory) including the file name and extension."
+    ),
 })
 
 export async function runScreenshotTool(
-  args: z.infer<typeof ScreenshotToolSchema>
-) {
+  args: z.infer<typeof ScreenshotToolSchema>,
+  runContext: ToolRunContext = {}
+): Promise<MCPToolResponse> {
+  const { signal, progress } = runContext
   // Determine final URL
   let finalUrl = args.url
   if (!finalUrl) {
     if (!args.relativePath) {
-      throw new Error("Must provide either 'url' or 'relativePath'")
+      throw new ToolValidationError(
+        screenshotToolName,
+        "Must provide either 'url' or 'relativePath'"
+      )
     }
-    finalUrl = `http://localhost:3000/${args.relativePath.replace(/^\//, "")}`
+    const baseUrl = (runContext.config?.baseUrl ?? "http://localhost:3000").replace(/\/$/, "")
+    finalUrl = `${baseUrl}/${args.relativePath.replace(/^\//, "")}`
   }
   const fullPathToScreenshot = path.resolve(args.fullPathToScreenshot)
 
-  // Launch Puppeteer
+  // Launch Puppeteer; closing the browser on abort rejects any pending page call
+  signal?.throwIfAborted()
+  progress?.({ message: "launching browser", progress: 1, total: 4 })
   const browser = await puppeteer.launch()
-  const page = await browser.newPage()
-  await page.goto(finalUrl)
-  const screenshotBuffer = (await page.screenshot({
-    fullPage: true,
-  })) as Buffer
-  await browser.close()
+  openBrowsers.add(browser)
+  const closeBrowser = () => {
+    browser.close().catch(() => {})
+  }
+  signal?.addEventListener("abort", closeBrowser, { once: true })
+
+  let screenshotBuffer: Buffer
+  try {
+    signal?.throwIfAborted()
+    const page = await browser.newPage()
+    progress?.({ message: `loading ${finalUrl}`, progress: 2, total: 4 })
+    await page.goto(finalUrl)
+    progress?.({ message: "capturing", progress: 3, total: 4 })
+    screenshotBuffer = (await page.screenshot({
+      fullPage: true,
+    })) as Buffer
+  } finally {
+    signal?.removeEventListener("abort", closeBrowser)
+    openBrowsers.delete(browser)
+    await browser.close().catch(() => {})
+  }
+  signal?.throwIfAborted()
+  progress?.({ message: "saving screenshot", progress: 4, total: 4 })
   await fs.promises.writeFile(fullPathToScreenshot, screenshotBuffer)
   // Return the base64 representation
   return {
@@ -51,3 +97,26 @@ export async function runScreenshotTool(
     ],
   }
 }
+
+export const screenshotTool: ToolCommand<
+  z.infer<typeof ScreenshotToolSchema>,
+  MCPToolResponse
+> = {
+  name: screenshotToolName,
+  description: screenshotToolDescription,
+  schema: ScreenshotToolSchema,
+  version: "1.0.0",
+  metadata: {
+    category: "utility",
+    tags: ["browser", "puppeteer"],
+    // One headless browser at a time
+    constraints: { maxExecutionTime: 60000, maxConcurrency: 1 },
+    configSchema: ScreenshotConfigSchema,
+  },
+  execute: (args, context) => runScreenshotTool(args, context),
+  onUnload: async () => {
+    const browsers = Array.from(openBrowsers)
+    openBrowsers.clear()
+    await Promise.allSettled(browsers.map((browser) => browser.close()))
+  },
+}
@@ -0,0 +1,270 @@
+import { z } from "zod";
+import type {
+  MCPToolResponse,
+  ToolCommand,
+  ToolHealthStatus,
+} from "../core/ToolCommand.js";
+import type { ToolRegistry } from "../core/ToolRegistry.js";
+import type { CommandDispatcher } from "../core/CommandDispatcher.js";
+import type { EventBus } from "../infra/eventBus.js";
+import { OPENAI_API_KEY, XAI_API_KEY } from "../common/providerConfig.js";
+import { PersonaRegistry } from "../personas/types.js";
+import { SERVER_NAME, SERVER_VERSION } from "../server.js";
+import { toolId } from "../core/toolVersions.js";
+
+/**
+ * Server status tool
+ *   - Read-only diagnostics: registered tools, in-flight requests, dispatcher
+ *     stats, provider key availability, personas and event bus listeners
+ *   - Never reveals secret values, only whether they are configured
+ */
+
+export const serverStatusToolName = "server-status";
+export const serverStatusToolDescription =
+  "Show what the MCP server is doing: registered tools and health, in-flight requests, provider key availability, personas, and event listener diagnostics.";
+
+export const ServerStatusToolSchema = z.object({
+  format: z
+    .enum(["markdown", "json"])
+    .optional()
+    .default("markdown")
+    .describe("Output format"),
+  include_health: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Run tool health checks (may call each tool's healthCheck)"),
+});
+
+export interface ServerStatusDeps {
+  registry: ToolRegistry;
+  dispatcher: CommandDispatcher;
+  eventBus: EventBus;
+}
+
+/** Events with more listeners than this are flagged as possible leaks */
+const LISTENER_LEAK_THRESHOLD = 10;
+
+/** Sources that subscribe once per connected MCP session, so scale with sessions */
+const SESSION_LISTENER_SOURCES = ["McpServer"];
+
+/**
+ * Which provider and search credentials are configured (never their values)
+ */
+function getProviderAvailability(): Record<string, boolean> {
+  return {
+    openai: Boolean(OPENAI_API_KEY),
+    xai: Boolean(XAI_API_KEY),
+    google_search: Boolean(
+      process.env.GOOGLE_API_KEY && process.env.GOOGLE_CSE_ID
+    ),
+    perplexity: Boolean(process.env.PERPLEXITY_API_KEY),
+    github: Boolean(process.env.GITHUB_TOKEN),
+  };
+}
+
+/**
+ * Collect a status snapshot from the registry, dispatcher and event bus
+ */
+export async function collectServerStatus(
+  deps: ServerStatusDeps,
+  includeHealth: boolean
+) {
+  const { registry, dispatcher, eventBus } = deps;
+  const now = Date.now();
+
+  const health: Record<string, ToolHealthStatus> = includeHealth
+    ? await registry.checkAllHealth()
+    : {};
+
+  const tools = registry.listRegistrations().map((registration) => ({
+    name: registration.tool.name,
+    version: registration.tool.version,
+    enabled: registration.enabled,
+    source: registration.source,
+    category: registration.tool.metadata?.category,
+    deprecated: registry.getDeprecation(registration.tool) !== undefined,
+    healthy: health[toolId(registration.tool)]?.healthy,
+    healthMessage: health[toolId(registration.tool)]?.message,
+  }));
+
+  const activeExecutions = Array.from(
+    dispatcher.getActiveExecutions().entries()
+  ).map(([requestId, execution]) => ({
+    requestId,
+    toolName: execution.toolName,
+    ageMs: now - execution.startTime,
+  }));
+
+  const debugInfo = eventBus.getDebugInfo();
+  const suspectedLeaks = Object.entries(debugInfo.eventCounts)
+    .filter(([event, count]) => {
+      const perSession = SESSION_LISTENER_SOURCES.reduce(
+        (sum, source) => sum + (debugInfo.sourceCounts[event]?.[source] ?? 0),
+        0
+      );
+      return count - perSession > LISTENER_LEAK_THRESHOLD;
+    })
+    .map(([event, count]) => ({ event, listeners: count }));
+
+  return {
+    server: {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+      uptimeSeconds: Math.round(process.uptime()),
+      memoryRssBytes: process.memoryUsage().rss,
+    },
+    registry: registry.getStats(),
+    tools,
+    dispatcher: dispatcher.getStats(),
+    activeExecutions,
+    providers: getProviderAvailability(),
+    personas: PersonaRegistry.list().map((persona) => ({
+      id: persona.id,
+      name: persona.name,
+    })),
+    eventBus: {
+      totalListeners: debugInfo.totalListeners,
+      eventCounts: debugInfo.eventCounts,
+      suspectedLeaks,
+      longLivedListeners: debugInfo.oldListeners,
+      buffers: debugInfo.buffers,
+    },
+  };
+}
+
+type ServerStatus = Awaited<ReturnType<typeof collectServerStatus>>;
+
+function formatMarkdown(status: ServerStatus): string {
+  const { server, registry, dispatcher } = status;
+  let response = `# ${server.name} v${server.version} Status\n\n`;
+  response += `- Uptime: ${server.uptimeSeconds}s\n`;
+  response += `- Memory (RSS): ${Math.round(server.memoryRssBytes / 1024 / 1024)} MB\n\n`;
+
+  response += `## Tools (${registry.enabledTools}/${registry.totalTools} enabled)\n\n`;
+  response += `| Tool | Version | Enabled | Health | Source |\n`;
+  response += `|------|---------|---------|--------|--------|\n`;
+  for (const tool of status.tools) {
+    const health =
+      tool.healthy === undefined
+        ? "-"
+        : tool.healthy
+        ? "ok"
+        : `unhealthy${tool.healthMessage ? `: ${tool.healthMessage}` : ""}`;
+    response += `| ${tool.name} | ${tool.version || "-"}${tool.deprecated ? " (deprecated)" : ""} | ${
+      tool.enabled ? "yes" : "no"
+    } | ${health} | ${tool.source} |\n`;
+  }
+  response += `\n`;
+  const unsatisfied = Object.entries(registry.dependencies).filter(
+    ([, dependency]) => !dependency.satisfied
+  );
+  if (unsatisfied.length > 0) {
+    unsatisfied.forEach(([name, dependency]) => {
+      response += `- ⚠️ ${name} depends on disabled tools (${dependency.dependsOn.join(", ")})\n`;
+    });
+    response += `\n`;
+  }
+
+  response += `## In-Flight Requests (${status.activeExecutions.length})\n\n`;
+  if (status.activeExecutions.length === 0) {
+    response += `None\n\n`;
+  } else {
+    status.activeExecutions.forEach((execution) => {
+      response += `- \`${execution.requestId}\` ${execution.toolName} (${Math.round(
+        execution.ageMs / 1000
+      )}s)\n`;
+    });
+    response += `\n`;
+  }
+
+  response += `## Dispatcher\n\n`;
+  response += `- Total executions: ${dispatcher.totalExecutions}\n`;
+  response += `- Error rate: ${(dispatcher.errorRate * 100).toFixed(1)}%\n`;
+  response += `- Latency p50/p95/p99: ${dispatcher.latency.p50}/${dispatcher.latency.p95}/${dispatcher.latency.p99} ms\n`;
+  response += `- Queue depth: ${dispatcher.queue.queueDepth} (peak ${dispatcher.queue.peakQueueDepth})\n\n`;
+
+  if (dispatcher.rateLimits.length > 0) {
+    response += `## Rate Limits\n\n`;
+    dispatcher.rateLimits.forEach(({ scope, key, tokens, capacity, refillPerMinute, rejected }) => {
+      response += `- ${scope} ${key}: ${tokens}/${capacity} tokens (+${refillPerMinute}/min), ${rejected} rejected\n`;
+    });
+    response += `\n`;
+  }
+
+  response += `## Providers\n\n`;
+  for (const [provider, available] of Object.entries(status.providers)) {
+    response += `- ${provider}: ${available ? "configured" : "missing key"}\n`;
+  }
+  response += `\n`;
+
+  const callMetrics = [
+    ...Object.entries(dispatcher.providers).map(([name, metrics]) => [`provider ${name}`, metrics] as const),
+    ...Object.entries(dispatcher.personas).map(([id, metrics]) => [`persona ${id}`, metrics] as const),
+  ];
+  if (callMetrics.length > 0) {
+    response += `## Provider Calls\n\n`;
+    callMetrics.forEach(([label, metrics]) => {
+      response += `- ${label}: ${metrics.executionCount} calls, ${(metrics.errorRate * 100).toFixed(1)}% errors, p50/p95 ${metrics.p50ExecutionTime}/${metrics.p95ExecutionTime} ms\n`;
+    });
+    response += `\n`;
+  }
+
+  response += `## Personas (${status.personas.length})\n\n`;
+  response += status.personas.map((p) => `\`${p.id}\``).join(", ") || "None";
+  response += `\n\n`;
+
+  response += `## Event Bus\n\n`;
+  response += `- Total listeners: ${status.eventBus.totalListeners}\n`;
+  if (status.eventBus.suspectedLeaks.length > 0) {
+    response += `- ⚠️ Possible listener leaks:\n`;
+    status.eventBus.suspectedLeaks.forEach(({ event, listeners }) => {
+      response += `  - ${event}: ${listeners} listeners\n`;
+    });
+  } else {
+    response += `- No listener leaks detected\n`;
+  }
+  status.eventBus.buffers.forEach(({ event, source, queued, dropped }) => {
+    response += `- Buffered ${source ?? "listener"} (${event}): ${queued} queued, ${dropped} dropped\n`;
+  });
+
+  return response;
+}
+
+export async function runServerStatusTool(
+  args: z.infer<typeof ServerStatusToolSchema>,
+  deps: ServerStatusDeps
+): Promise<MCPToolResponse> {
+  const status = await collectServerStatus(deps, args.include_health);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text:
+          args.format === "json"
+            ? JSON.stringify(status, null, 2)
+            : formatMarkdown(status),
+      },
+    ],
+  };
+}
+
+/**
+ * Create the server-status tool bound to the running server's components
+ */
+export function createServerStatusTool(
+  deps: ServerStatusDeps
+): ToolCommand<z.infer<typeof ServerStatusToolSchema>, MCPToolResponse> {
+  return {
+    name: serverStatusToolName,
+    description: serverStatusToolDescription,
+    schema: ServerStatusToolSchema,
+    version: "1.0.0",
+    metadata: {
+      category: "diagnostics",
+      tags: ["diagnostics", "read-only"],
+    },
+    execute: (args) => runServerStatusTool(args, deps),
+  };
+}
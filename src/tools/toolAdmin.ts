@@ -0,0 +1,178 @@
+import { z } from "zod";
+import {
+  ToolError,
+  ToolNotFoundError,
+  ToolValidationError,
+  type MCPToolResponse,
+  type ToolCommand,
+} from "../core/ToolCommand.js";
+import type { ToolRegistry } from "../core/ToolRegistry.js";
+import { toolId } from "../core/toolVersions.js";
+
+/**
+ * Tool admin tool
+ *   - Lists every registered tool version and whether it is enabled
+ *   - Turns tools on and off at runtime; connected clients get
+ *     notifications/tools/list_changed and tools/list reflects it right away
+ *   - Applies a batch all or nothing
+ *   - Never disables itself, so the admin surface stays reachable, and never
+ *     enables tools the server config (enabledTools/disabledTools) turned off
+ */
+
+export const toolAdminToolName = "tool-admin";
+export const toolAdminToolDescription =
+  "List, enable or disable the server's tools at runtime (e.g. turn off screenshot or researcher for this project). tools/list reflects changes immediately.";
+
+export const ToolAdminToolSchema = z.object({
+  action: z
+    .enum(["list", "enable", "disable"])
+    .describe("List tools, or enable/disable the given tools"),
+  tools: z
+    .array(z.string().min(1))
+    .optional()
+    .default([])
+    .describe("Tool names to enable or disable; name@version targets one version"),
+  cascade: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Also disable tools that depend on these, or enable the tools these depend on"),
+});
+
+export interface ToolAdminDeps {
+  registry: ToolRegistry;
+  /** Registry ids disabled by the server config; these stay off */
+  configDisabled?: ReadonlySet<string>;
+}
+
+function snapshot(registry: ToolRegistry): Map<string, boolean> {
+  return new Map(
+    registry
+      .listRegistrations()
+      .map((registration) => [toolId(registration.tool), registration.enabled])
+  );
+}
+
+function formatMarkdown(registry: ToolRegistry, changes: string[]): string {
+  let response = "";
+  if (changes.length > 0) {
+    response += `## Changes\n\n${changes.map((change) => `- ${change}`).join("\n")}\n\n`;
+  }
+
+  response += `## Tools\n\n`;
+  response += `| Tool | Version | Enabled | Source |\n`;
+  response += `|------|---------|---------|--------|\n`;
+  for (const registration of registry.listRegistrations()) {
+    response += `| ${registration.tool.name} | ${registration.tool.version || "-"} | ${
+      registration.enabled ? "yes" : "no"
+    } | ${registration.source} |\n`;
+  }
+  return response;
+}
+
+export function runToolAdminTool(
+  args: z.infer<typeof ToolAdminToolSchema>,
+  { registry, configDisabled = new Set() }: ToolAdminDeps
+): MCPToolResponse {
+  const changes: string[] = [];
+
+  if (args.action !== "list") {
+    if (args.tools.length === 0) {
+      throw new ToolValidationError(
+        toolAdminToolName,
+        `tools: name at least one tool to ${args.action}`
+      );
+    }
+
+    // Check every name before changing anything
+    const enabled = args.action === "enable";
+    for (const name of args.tools) {
+      const registration = registry.getRegistration(name);
+      if (!registration) {
+        throw new ToolNotFoundError(name);
+      }
+      if (!enabled && registration.tool.name === toolAdminToolName) {
+        throw new ToolError(
+          `${toolAdminToolName} cannot disable itself`,
+          "PERMISSION_ERROR",
+          toolAdminToolName,
+          undefined,
+          {
+            retryable: false,
+            remediation: `List ${toolAdminToolName} in the disabledTools config to remove it`,
+          }
+        );
+      }
+      const locked = enabled
+        ? enableTargets(registry, name, args.cascade).find((id) => configDisabled.has(id))
+        : undefined;
+      if (locked) {
+        throw new ToolError(
+          `Tool '${locked}' is disabled by the server config (enabledTools/disabledTools)`,
+          "PERMISSION_ERROR",
+          toolAdminToolName,
+          undefined,
+          {
+            retryable: false,
+            remediation: "Change enabledTools/disabledTools in the server config and restart the server",
+          }
+        );
+      }
+    }
+
+    // All or nothing: a refused tool undoes the ones toggled before it
+    const before = snapshot(registry);
+    registry.setEnabledAll(args.tools, enabled, { cascade: args.cascade });
+    for (const [id, isEnabled] of snapshot(registry)) {
+      if (before.get(id) !== isEnabled) {
+        changes.push(`${isEnabled ? "Enabled" : "Disabled"} ${id}`);
+      }
+    }
+    if (changes.length === 0) {
+      changes.push(`No changes; already ${enabled ? "enabled" : "disabled"}`);
+    }
+  }
+
+  return {
+    content: [{ type: "text", text: formatMarkdown(registry, changes) }],
+  };
+}
+
+/**
+ * The tool `name` resolves to plus, when cascading, every dependency that
+ * enabling it would enable too
+ */
+function enableTargets(registry: ToolRegistry, name: string, cascade: boolean): string[] {
+  const targets: string[] = [];
+  const visit = (ref: string) => {
+    const registration = registry.getRegistration(ref);
+    if (!registration) return;
+    const id = toolId(registration.tool);
+    if (targets.includes(id)) return;
+    targets.push(id);
+    if (cascade && !registration.enabled) {
+      registration.tool.metadata?.dependencies?.forEach(visit);
+    }
+  };
+  visit(name);
+  return targets;
+}
+
+/**
+ * Create the tool-admin tool bound to the running server's registry
+ */
+export function createToolAdminTool(
+  deps: ToolAdminDeps
+): ToolCommand<z.infer<typeof ToolAdminToolSchema>, MCPToolResponse> {
+  return {
+    name: toolAdminToolName,
+    description: toolAdminToolDescription,
+    schema: ToolAdminToolSchema,
+    version: "1.0.0",
+    metadata: {
+      category: "admin",
+      tags: ["admin"],
+    },
+    execute: async (args) => runToolAdminTool(args, deps),
+  };
+}
@@ -0,0 +1,340 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { z } from 'zod';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { ExecutionQueue } from '../src/core/ExecutionQueue.js';
+import { EventBusClass, eventBus } from '../src/infra/eventBus.js';
+import { ToolError, type ToolCommand } from '../src/core/ToolCommand.js';
+import { callAIWithPersona } from '../src/common/personaClient.js';
+import { builtinTools } from '../src/tools/index.js';
+import { callRequest } from './helpers.js';
+import '../src/personas/charles/index.js';
+
+const echoTool: ToolCommand<{ message: string }> = {
+  name: 'echo',
+  description: 'Echo a message back',
+  schema: z.object({ message: z.string() }),
+  execute: async ({ message }) => message
+};
+
+describe('CommandDispatcher', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let registry: ToolRegistry;
+  let dispatcher: CommandDispatcher;
+
+  beforeEach(async () => {
+    bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    dispatcher = new CommandDispatcher(registry, bus);
+    await registry.register(echoTool, 'test');
+  });
+
+  test('registers every built-in tool', async () => {
+    for (const tool of builtinTools) {
+      await registry.register(tool, 'builtin');
+    }
+    expect(registry.getToolNames()).toEqual(
+      expect.arrayContaining([
+        'screenshot', 'architect', 'code-review', 'code-advice',
+        'researcher', 'persona', 'ask', 'discover'
+      ])
+    );
+  });
+
+  test('dispatches to a registered tool', async () => {
+    const response = await dispatcher.dispatch(callRequest('echo', { message: 'hi' }));
+    expect(response.content[0].text).toBe('hi');
+  });
+
+  test('reports validation errors', async () => {
+    const response = await dispatcher.dispatch(callRequest('echo', {}));
+    expect(response.content[0].text).toContain('VALIDATION_ERROR');
+  });
+
+  test('reports unknown tools', async () => {
+    const response = await dispatcher.dispatch(callRequest('missing'));
+    expect(response.content[0].text).toContain('TOOL_NOT_FOUND');
+  });
+
+  test('returns failures as isError results with structured error content', async () => {
+    const response = await dispatcher.dispatch(callRequest('echo', {}));
+
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent).toEqual({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: expect.stringContaining("Validation failed for tool 'echo'"),
+        tool: 'echo',
+        requestId: expect.stringMatching(/^req_/),
+        retryable: false,
+        remediation: "Fix the arguments to match the tool's inputSchema"
+      }
+    });
+    expect(response.content[0].text).toContain("Hint: Fix the arguments");
+  });
+
+  test('classifies provider HTTP failures as retryable where appropriate', async () => {
+    await registry.register({
+      name: 'rate-limited',
+      description: 'Fails like a provider returning 429',
+      schema: z.object({}),
+      execute: async () => {
+        throw Object.assign(new Error('Too Many Requests'), { status: 429 });
+      }
+    }, 'test');
+
+    const response = await dispatcher.dispatch(callRequest('rate-limited'));
+    expect(response.structuredContent?.error).toMatchObject({
+      code: 'RESOURCE_ERROR',
+      retryable: true,
+      remediation: expect.stringContaining('rate limit')
+    });
+  });
+
+  test('surfaces tool-reported errors with their remediation hints', async () => {
+    for (const tool of builtinTools) {
+      await registry.register(tool, 'builtin');
+    }
+
+    const response = await dispatcher.dispatch(callRequest('persona', { persona_id: 'nobody', query: 'hi' }));
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent?.error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      tool: 'persona',
+      remediation: "Use the 'discover' tool to list personas"
+    });
+
+    const architect = await dispatcher.dispatch(callRequest('architect', { task: 'Design this', code: 'const x = 1;', persona: 'nobody' }));
+    expect(architect.structuredContent?.error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      tool: 'architect',
+      message: expect.stringContaining("Persona 'nobody' not found. Available personas:"),
+      remediation: "Use the 'discover' tool to list personas"
+    });
+  });
+
+  test('emits lifecycle events for each call', async () => {
+    const events: string[] = [];
+    bus.on('tool:execute:start', () => events.push('start'));
+    bus.on('tool:execute:end', ({ success }) => events.push(`end:${success}`));
+
+    await dispatcher.dispatch(callRequest('echo', { message: 'hi' }));
+    expect(events).toEqual(['start', 'end:true']);
+  });
+
+  test('aborts the tool signal when the execution times out', async () => {
+    let toolSignal: AbortSignal | undefined;
+    await registry.register({
+      name: 'slow',
+      description: 'Never finishes on its own',
+      schema: z.object({}),
+      metadata: { constraints: { maxExecutionTime: 20 } },
+      execute: (_args, context) => {
+        toolSignal = context.signal;
+        return new Promise(() => {});
+      }
+    }, 'test');
+
+    const response = await dispatcher.dispatch(callRequest('slow'));
+    expect(response.content[0].text).toContain('TIMEOUT_ERROR');
+    expect(toolSignal?.aborted).toBe(true);
+  });
+
+  test('aborts the tool signal when the client cancels', async () => {
+    let toolSignal: AbortSignal | undefined;
+    await registry.register({
+      name: 'waiting',
+      description: 'Waits for cancellation',
+      schema: z.object({}),
+      execute: (_args, context) => {
+        toolSignal = context.signal;
+        return new Promise(() => {});
+      }
+    }, 'test');
+
+    const client = new AbortController();
+    const pending = dispatcher.dispatch(callRequest('waiting'), { signal: client.signal });
+    client.abort();
+
+    const response = await pending;
+    expect(response.content[0].text).toContain('CANCELLED');
+    expect(toolSignal?.aborted).toBe(true);
+  });
+
+  test('forwards monotonic progress updates', async () => {
+    await registry.register({
+      name: 'stepper',
+      description: 'Reports a few stages',
+      schema: z.object({}),
+      execute: async (_args, context) => {
+        context.progress?.({ message: 'first' });
+        context.progress?.({ message: 'second', progress: 5, total: 10 });
+        context.progress?.({ message: 'third', progress: 2 });
+        return 'done';
+      }
+    }, 'test');
+
+    const updates: Array<{ message: string; progress: number }> = [];
+    await dispatcher.dispatch(callRequest('stepper'), {
+      onProgress: ({ message, progress }) => updates.push({ message, progress })
+    });
+
+    expect(updates).toEqual([
+      { message: 'first', progress: 0 },
+      { message: 'second', progress: 5 },
+      { message: 'third', progress: 6 }
+    ]);
+  });
+
+  test('queues calls beyond the concurrency limit', async () => {
+    const limited = new CommandDispatcher(registry, bus, { maxConcurrentExecutions: 1 });
+    const [first, second] = await Promise.all([
+      limited.dispatch(callRequest('echo', { message: 'one' })),
+      limited.dispatch(callRequest('echo', { message: 'two' }))
+    ]);
+
+    expect(first.content[0].text).toBe('one');
+    expect(second.content[0].text).toBe('two');
+    expect(limited.getStats().queue.totalQueued).toBe(1);
+  });
+
+  test('reports execution metrics per tool and error code', async () => {
+    await dispatcher.dispatch(callRequest('echo', { message: 'a' }));
+    await dispatcher.dispatch(callRequest('echo', { message: 'b' }));
+    await dispatcher.dispatch(callRequest('echo', {}));
+    await dispatcher.dispatch(callRequest('missing'));
+
+    const stats = dispatcher.getStats();
+    expect(stats.errorRate).toBeCloseTo(1 / 3);
+    expect(stats.tools.missing).toBeUndefined();
+    expect(stats.tools.echo).toMatchObject({
+      executionCount: 3,
+      successCount: 2,
+      failureCount: 1,
+      errorsByCode: { VALIDATION_ERROR: 1 }
+    });
+    expect(stats.tools.echo.p99ExecutionTime).toBeGreaterThanOrEqual(stats.tools.echo.p50ExecutionTime);
+
+    const health = await registry.checkHealth('echo', false);
+    expect(health.metrics?.executionCount).toBe(3);
+    expect(health.metrics?.errorsByCode).toEqual({ VALIDATION_ERROR: 1 });
+  });
+
+  test('reports provider call metrics per persona and provider', async () => {
+    const rateLimited = new ToolError('Too many requests', 'RESOURCE_ERROR');
+    bus.emit('provider:call', { provider: 'xai', persona: 'charles', success: true, executionTime: 40 });
+    bus.emit('provider:call', { provider: 'openai', persona: 'charles', success: false, executionTime: 10, error: rateLimited });
+    bus.emit('provider:call', { provider: 'openai', success: true, executionTime: 30 });
+
+    const { personas, providers } = dispatcher.getStats();
+    expect(personas.charles).toMatchObject({ executionCount: 2, failureCount: 1, errorsByCode: { RESOURCE_ERROR: 1 } });
+    expect(providers.xai).toMatchObject({ executionCount: 1, p50ExecutionTime: 40 });
+    expect(providers.openai).toMatchObject({ executionCount: 2, errorRate: 0.5 });
+  });
+
+  test('reports persona provider calls on the event bus', async () => {
+    const calls: unknown[] = [];
+    const unsubscribe = eventBus.on('provider:call', (event) => calls.push(event));
+
+    await callAIWithPersona({
+      systemPrompt: 'You review code',
+      task: 'Review this',
+      code: 'const x = 1;',
+      analysisType: 'review',
+      reasoningEffort: 'low',
+      personaId: 'charles',
+      providerOverride: 'sampling',
+      sample: async () => ({ text: 'Looks fine', model: 'client-model' })
+    });
+    unsubscribe();
+
+    expect(calls).toEqual([expect.objectContaining({ provider: 'sampling', persona: 'charles', success: true })]);
+  });
+
+  test('runs the discover tool through the dispatcher', async () => {
+    for (const tool of builtinTools) {
+      await registry.register(tool, 'builtin');
+    }
+    const response = await dispatcher.dispatch(callRequest('discover'));
+    expect(response.content[0].text).toContain('Available Expert Personas');
+  });
+});
+
+describe('ExecutionQueue', () => {
+  const config = { maxConcurrent: 2, maxQueueSize: 2, queueTimeout: 1000 };
+
+  test('queues requests beyond the global limit instead of rejecting', async () => {
+    const queue = new ExecutionQueue(config);
+    const first = await queue.acquire('ask');
+    await queue.acquire('ask');
+
+    let thirdStarted = false;
+    const third = queue.acquire('ask').then((release) => {
+      thirdStarted = true;
+      return release;
+    });
+
+    expect(queue.getStats().queueDepth).toBe(1);
+    first();
+    await third;
+    expect(thirdStarted).toBe(true);
+    expect(queue.getStats().queueDepth).toBe(0);
+  });
+
+  test('lets other tools run while one tool is at its own limit', async () => {
+    const queue = new ExecutionQueue(config);
+    await queue.acquire('screenshot', { toolLimit: 1 });
+
+    const blocked = queue.acquire('screenshot', { toolLimit: 1 });
+    const release = await queue.acquire('discover');
+
+    expect(queue.getStats().queuedByTool).toEqual({ screenshot: 1 });
+    release();
+    expect(queue.getStats().queuedByTool).toEqual({ screenshot: 1 });
+    blocked.catch(() => {});
+  });
+
+  test('grants slots by priority, then arrival order', async () => {
+    const queue = new ExecutionQueue({ ...config, maxConcurrent: 1, maxQueueSize: 5 });
+    const running = await queue.acquire('ask');
+
+    const order: string[] = [];
+    const waiters = [
+      queue.acquire('ask').then((r) => { order.push('low-1'); r(); }),
+      queue.acquire('ask', { priority: 5 }).then((r) => { order.push('high'); r(); }),
+      queue.acquire('ask').then((r) => { order.push('low-2'); r(); })
+    ];
+
+    running();
+    await Promise.all(waiters);
+    expect(order).toEqual(['high', 'low-1', 'low-2']);
+  });
+
+  test('rejects with RESOURCE_ERROR when the queue is full or the wait times out', async () => {
+    const queue = new ExecutionQueue({ maxConcurrent: 1, maxQueueSize: 1, queueTimeout: 20 });
+    await queue.acquire('ask');
+
+    const waiting = queue.acquire('ask');
+    await expect(queue.acquire('ask')).rejects.toMatchObject({ code: 'RESOURCE_ERROR' });
+    await expect(waiting).rejects.toMatchObject({ code: 'RESOURCE_ERROR' });
+
+    const stats = queue.getStats();
+    expect(stats.queueRejections).toBe(1);
+    expect(stats.queueTimeouts).toBe(1);
+    expect(stats.peakQueueDepth).toBe(1);
+  });
+
+  test('removes cancelled requests from the queue', async () => {
+    const queue = new ExecutionQueue(config);
+    await queue.acquire('ask');
+    await queue.acquire('ask');
+
+    const client = new AbortController();
+    const waiting = queue.acquire('ask', { signal: client.signal });
+    client.abort();
+
+    await expect(waiting).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(queue.getStats().queueDepth).toBe(0);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+
+import { EventBusClass } from '../src/infra/eventBus.js';
+
+describe('EventBus', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    bus = new EventBusClass();
+    errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  test('wildcard subscriptions receive matching events with their names', () => {
+    const toolEvents: string[] = [];
+    const allEvents: string[] = [];
+    bus.on('tool:*', (_data, event) => toolEvents.push(event));
+    bus.on('*', (_data, event) => allEvents.push(event));
+
+    bus.emit('tool:registered', { name: 'echo', source: 'test' });
+    bus.emit('tool:execute:end', { name: 'echo', success: true, executionTime: 1 });
+    bus.emit('registry:initialized', { toolCount: 1 });
+
+    expect(toolEvents).toEqual(['tool:registered', 'tool:execute:end']);
+    expect(allEvents).toEqual(['tool:registered', 'tool:execute:end', 'registry:initialized']);
+    expect(bus.listenerCount('tool:registered')).toBe(2);
+    expect(bus.listenerCount('registry:initialized')).toBe(1);
+  });
+
+  test('unsubscribing a wildcard handler stops delivery', () => {
+    const events: string[] = [];
+    const unsubscribe = bus.on('registry:*', (_data, event) => events.push(event));
+
+    unsubscribe();
+    bus.emit('registry:initialized', { toolCount: 0 });
+
+    expect(events).toEqual([]);
+    expect(bus.getTotalListenerCount()).toBe(0);
+  });
+
+  test('runs higher priorities first, then in subscription order', () => {
+    const order: string[] = [];
+    bus.on('tool:error', () => order.push('default'));
+    bus.on('tool:*', () => order.push('wildcard-high'), { priority: 10 });
+    bus.on('tool:error', () => order.push('low'), { priority: -5 });
+    bus.on('tool:error', () => order.push('default-later'));
+
+    bus.emit('tool:error', { name: 'echo', error: new Error('boom') });
+
+    expect(order).toEqual(['wildcard-high', 'default', 'default-later', 'low']);
+  });
+
+  test('emit logs rejections from async handlers instead of leaking them', async () => {
+    const delivered: string[] = [];
+    bus.on('registry:initialized', async () => {
+      throw new Error('async failure');
+    }, 'Failing');
+    bus.on('registry:initialized', () => delivered.push('next'));
+
+    bus.emit('registry:initialized', { toolCount: 0 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(delivered).toEqual(['next']);
+    expect(String(errorSpy.mock.calls[0][0])).toContain('source: Failing');
+  });
+
+  test('emitAsync awaits handlers in order and isolates failures and timeouts', async () => {
+    const order: string[] = [];
+    bus.on('system:shutdown', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      order.push('slow-but-in-time');
+    }, { priority: 2 });
+    bus.on('system:shutdown', async () => {
+      throw new Error('broken');
+    }, { source: 'Broken', priority: 1 });
+    bus.on('system:shutdown', () => new Promise(() => {}), { source: 'Hung' });
+    bus.on('system:shutdown', () => {
+      order.push('last');
+    }, { priority: -1 });
+
+    const result = await bus.emitAsync('system:shutdown', { timestamp: 0 }, { timeout: 50 });
+
+    expect(order).toEqual(['slow-but-in-time', 'last']);
+    expect(result.delivered).toBe(2);
+    expect(result.failures.map((failure) => [failure.source, failure.error.message])).toEqual([
+      ['Broken', 'broken'],
+      ['Hung', 'Handler timed out after 50ms']
+    ]);
+  });
+
+  test('buffered handlers run off the emit path until flushed', async () => {
+    const received: number[] = [];
+    bus.on('registry:initialized', async ({ toolCount }) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      received.push(toolCount);
+    }, { buffered: true });
+
+    bus.emit('registry:initialized', { toolCount: 1 });
+    bus.emit('registry:initialized', { toolCount: 2 });
+    expect(received).toEqual([]);
+
+    await bus.flush();
+    expect(received).toEqual([1, 2]);
+  });
+
+  test('bounded buffers drop the oldest or newest events when full', async () => {
+    const oldestDropped: number[] = [];
+    const newestDropped: number[] = [];
+    bus.on('registry:initialized', ({ toolCount }) => {
+      oldestDropped.push(toolCount);
+    }, { source: 'Oldest', buffered: { maxSize: 2 } });
+    bus.on('registry:initialized', ({ toolCount }) => {
+      newestDropped.push(toolCount);
+    }, { source: 'Newest', buffered: { maxSize: 2, overflow: 'drop-newest' } });
+
+    for (let i = 1; i <= 4; i++) {
+      bus.emit('registry:initialized', { toolCount: i });
+    }
+    expect(bus.getDebugInfo().buffers).toEqual([
+      { event: 'registry:initialized', source: 'Oldest', queued: 2, dropped: 2 },
+      { event: 'registry:initialized', source: 'Newest', queued: 2, dropped: 2 }
+    ]);
+
+    await bus.flush();
+    expect(oldestDropped).toEqual([3, 4]);
+    expect(newestDropped).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, test, expect, beforeEach, afterEach, afterAll } from 'bun:test';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import {
+  EventLogSink,
+  buildRequestTimelines,
+  formatTimeline,
+  readEventLog
+} from '../src/infra/eventLog.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import { ToolError } from '../src/core/ToolCommand.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const logDir = path.join(__dirname, 'temp-eventlog');
+const logFile = path.join(logDir, 'events.jsonl');
+
+describe('EventLogSink', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let sink: EventLogSink | undefined;
+
+  beforeEach(() => {
+    fs.rmSync(logDir, { recursive: true, force: true });
+    bus = new EventBusClass();
+  });
+
+  afterEach(() => {
+    sink?.stop();
+  });
+
+  afterAll(() => {
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  test('appends tool, registry and system events as JSONL', async () => {
+    sink = new EventLogSink({ filePath: logFile }, bus);
+    sink.start();
+
+    bus.emit('registry:initialized', { toolCount: 3 });
+    bus.emit('tool:execute:start', { name: 'ask', requestId: 'req_1', args: { question: 'why?' } });
+    bus.emit('system:shutdown', { timestamp: 1, reason: 'SIGTERM' });
+    await bus.flush();
+
+    const records = readEventLog(logFile);
+    expect(records.map((record) => record.event)).toEqual([
+      'registry:initialized',
+      'tool:execute:start',
+      'system:shutdown'
+    ]);
+    expect(records[1]).toMatchObject({ requestId: 'req_1', tool: 'ask' });
+    expect(Date.parse(records[1].ts)).not.toBeNaN();
+  });
+
+  test('redacts configured keys, truncates long values and serializes errors', async () => {
+    sink = new EventLogSink({ filePath: logFile, redactKeys: ['password'], maxValueLength: 20 }, bus);
+    sink.start();
+
+    bus.emit('tool:execute:start', {
+      name: 'login',
+      requestId: 'req_1',
+      args: { user: 'ada', nested: { Password: 'hunter2' }, code: 'x'.repeat(50) }
+    });
+    bus.emit('tool:error', {
+      name: 'login',
+      requestId: 'req_1',
+      error: new ToolError('Rate limited', 'RESOURCE_ERROR', 'login')
+    });
+    await bus.flush();
+
+    const [start, error] = readEventLog(logFile);
+    expect(start.data).toMatchObject({
+      args: { user: 'ada', nested: { Password: '[REDACTED]' }, code: `${'x'.repeat(20)}… [30 more chars]` }
+    });
+    expect(error.data).toMatchObject({
+      error: { name: 'ToolError', message: 'Rate limited', code: 'RESOURCE_ERROR', retryable: true }
+    });
+  });
+
+  test('rotates files and keeps only maxFiles of them', async () => {
+    sink = new EventLogSink({ filePath: logFile, maxBytes: 200, maxFiles: 2 }, bus);
+    sink.start();
+
+    for (let i = 0; i < 10; i++) {
+      bus.emit('registry:initialized', { toolCount: i });
+    }
+    await bus.flush();
+
+    expect(fs.existsSync(`${logFile}.1`)).toBe(true);
+    expect(fs.existsSync(`${logFile}.2`)).toBe(true);
+    expect(fs.existsSync(`${logFile}.3`)).toBe(false);
+    for (const file of [logFile, `${logFile}.1`, `${logFile}.2`]) {
+      expect(fs.statSync(file).size).toBeLessThanOrEqual(200);
+    }
+
+    // Oldest surviving records come first, ending with the latest
+    const counts = readEventLog(logFile).map((record) => (record.data as any).toolCount);
+    expect(counts.at(-1)).toBe(9);
+    expect(counts).toEqual([...counts].sort((a, b) => a - b));
+  });
+
+  test('reads every rotated file, beyond the default maxFiles', async () => {
+    sink = new EventLogSink({ filePath: logFile, maxBytes: 100, maxFiles: 20 }, bus);
+    sink.start();
+
+    for (let i = 0; i < 12; i++) {
+      bus.emit('registry:initialized', { toolCount: i });
+    }
+    await bus.flush();
+
+    expect(fs.existsSync(`${logFile}.10`)).toBe(true);
+    const counts = readEventLog(logFile).map((record) => (record.data as any).toolCount);
+    expect(counts).toEqual(Array.from({ length: 12 }, (_, i) => i));
+  });
+
+  test('stops writing once stopped', async () => {
+    sink = new EventLogSink({ filePath: logFile }, bus);
+    sink.start();
+    sink.stop();
+
+    bus.emit('registry:initialized', { toolCount: 1 });
+    await bus.flush();
+
+    expect(readEventLog(logFile)).toEqual([]);
+    expect(bus.getTotalListenerCount()).toBe(0);
+  });
+
+  test('timestamps events when they are emitted, not when written', async () => {
+    sink = new EventLogSink({ filePath: logFile }, bus);
+    sink.start();
+
+    const emittedAt = Date.now();
+    bus.emit('registry:initialized', { toolCount: 1 });
+    // Keep the buffered write waiting
+    while (Date.now() - emittedAt < 50) {}
+    await bus.flush();
+
+    const [record] = readEventLog(logFile);
+    expect(Date.parse(record.ts) - emittedAt).toBeLessThan(50);
+  });
+});
+
+describe('Event log replay', () => {
+  afterAll(() => {
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  test('reconstructs per-request timelines', () => {
+    fs.mkdirSync(logDir, { recursive: true });
+    const lines = [
+      { ts: '2026-01-01T10:00:00.000Z', event: 'tool:execute:start', requestId: 'req_1', tool: 'ask', data: { args: { question: 'q' } } },
+      { ts: '2026-01-01T10:00:00.500Z', event: 'tool:execute:start', requestId: 'req_2', tool: 'discover', data: {} },
+      { ts: '2026-01-01T10:00:01.000Z', event: 'tool:execute:end', requestId: 'req_2', tool: 'discover', data: { success: true, executionTime: 500 } },
+      { ts: '2026-01-01T10:00:30.000Z', event: 'tool:progress', requestId: 'req_1', tool: 'ask', data: { progress: 1, total: 3, message: 'Calling provider' } },
+      { ts: '2026-01-01T10:01:30.000Z', event: 'tool:error', requestId: 'req_1', tool: 'ask', data: { error: { code: 'TIMEOUT_ERROR', message: 'timed out' } } },
+      { ts: '2026-01-01T10:01:30.000Z', event: 'tool:execute:end', requestId: 'req_1', tool: 'ask', data: { success: false, executionTime: 90000 } }
+    ];
+    fs.writeFileSync(logFile, lines.map((line) => JSON.stringify(line)).join('\n') + '\n{"ts": "2026-01-01T10:0');
+
+    const timelines = buildRequestTimelines(readEventLog(logFile));
+
+    expect(timelines.map((timeline) => timeline.requestId)).toEqual(['req_1', 'req_2']);
+    expect(timelines[0]).toMatchObject({
+      tool: 'ask',
+      success: false,
+      durationMs: 90000,
+      error: 'timed out'
+    });
+    expect(timelines[0].entries.map((entry) => entry.offsetMs)).toEqual([0, 30000, 90000, 90000]);
+
+    const text = formatTimeline(timelines[0]);
+    expect(text).toContain('req_1 ask — failed, 90000ms');
+    expect(text).toContain('tool:progress  1/3 Calling provider');
+    expect(text).toContain('TIMEOUT_ERROR: timed out');
+  });
+});
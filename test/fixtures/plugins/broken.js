@@ -0,0 +1 @@
+throw new Error('plugin exploded on import');
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export default [
+  {
+    name: 'bundle-one',
+    description: 'First bundled tool',
+    schema: z.object({}),
+    execute: async () => 'one'
+  },
+  {
+    name: 'bundle two',
+    description: 'Invalid name',
+    schema: z.object({}),
+    execute: async () => 'two'
+  }
+];
@@ -0,0 +1 @@
+export const notATool = { name: 'nope' };
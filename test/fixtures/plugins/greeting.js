@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const greetingTool = {
+  name: 'greeting',
+  description: 'Say hello',
+  version: '1.0.0',
+  schema: z.object({ name: z.string().describe('Who to greet') }),
+  execute: async ({ name }) => `Hello, ${name}!`
+};
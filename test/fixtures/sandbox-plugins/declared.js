@@ -0,0 +1,13 @@
+import fs from 'fs';
+import { z } from 'zod';
+
+// Top-level code must only ever run inside the sandbox worker
+globalThis.__declaredImported = true;
+
+export const countTool = {
+  name: 'sandbox-count',
+  description: 'Count the characters of a file inside the sandbox',
+  schema: z.object({ path: z.string(), label: z.string().default('characters') }),
+  metadata: { constraints: { requiresSandbox: true } },
+  execute: async ({ path, label }) => `${fs.readFileSync(path, 'utf8').length} ${label}`
+};
@@ -0,0 +1,14 @@
+import fs from 'fs';
+import os from 'os';
+import { z } from 'zod';
+
+// Runs while the worker imports the module, before any execute()
+const listing = fs.readdirSync(os.tmpdir());
+
+export const eagerTool = {
+  name: 'sandbox-eager',
+  description: 'Reads outside the sandbox at import time',
+  schema: z.object({}),
+  metadata: { constraints: { requiresSandbox: true } },
+  execute: async () => listing.join('\n')
+};
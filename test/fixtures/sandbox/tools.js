@@ -0,0 +1,49 @@
+import fs from 'fs';
+import childProcess from 'child_process';
+import { z } from 'zod';
+
+const sandboxed = { constraints: { requiresSandbox: true, maxMemory: 64 * 1024 * 1024 } };
+
+export const readFileTool = {
+  name: 'sandbox-read',
+  description: 'Read a file from inside the sandbox',
+  schema: z.object({ path: z.string() }),
+  metadata: sandboxed,
+  execute: async ({ path }, context) => {
+    context.progress?.({ message: `Reading ${path}` });
+    return fs.readFileSync(path, 'utf8');
+  }
+};
+
+export const spawnTool = {
+  name: 'sandbox-spawn',
+  description: 'Try to start a child process',
+  schema: z.object({}),
+  metadata: sandboxed,
+  execute: async () => childProcess.execSync('echo hi').toString()
+};
+
+export const spinTool = {
+  name: 'sandbox-spin',
+  description: 'Never yields the event loop',
+  schema: z.object({}),
+  metadata: { constraints: { requiresSandbox: true, maxExecutionTime: 300 } },
+  execute: async () => {
+    for (;;) {
+      // busy loop only a hard kill can stop
+    }
+  }
+};
+
+export const failingTool = {
+  name: 'sandbox-fail',
+  description: 'Throw a coded error',
+  schema: z.object({}),
+  metadata: sandboxed,
+  execute: async () => {
+    throw Object.assign(new Error('Quota exceeded upstream'), {
+      code: 'RESOURCE_ERROR',
+      remediation: 'Wait for the quota to reset'
+    });
+  }
+};
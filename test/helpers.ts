@@ -0,0 +1,30 @@
+/**
+ * Helpers shared by the test files
+ */
+
+import { z } from 'zod';
+
+import type { ToolCommand } from '../src/core/ToolCommand.js';
+
+/**
+ * A tools/call request as the MCP server passes it to the dispatcher
+ */
+export function callRequest(name: string, args: Record<string, unknown> = {}) {
+  return {
+    method: 'tools/call' as const,
+    params: { name, arguments: args }
+  };
+}
+
+/**
+ * A tool without arguments that returns its own name
+ */
+export function tool(name: string, dependencies?: string[]): ToolCommand {
+  return {
+    name,
+    description: `The ${name} tool`,
+    schema: z.object({}),
+    metadata: dependencies ? { dependencies } : undefined,
+    execute: async () => name
+  };
+}
@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeEach, afterAll } from 'bun:test';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { HotReloader } from '../src/core/HotReloader.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import { PersonaRegistry } from '../src/personas/types.js';
+import { createMcpServer } from '../src/server.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const tempDir = path.join(__dirname, 'temp-reload');
+const toolDir = path.join(tempDir, 'tools');
+const personaDir = path.join(tempDir, 'personas');
+const typesModule = path.join(__dirname, '..', 'src', 'personas', 'types.js');
+
+function writeTool(description: string) {
+  const modulePath = path.join(toolDir, 'greeting.js');
+  fs.writeFileSync(modulePath, `
+    import { z } from 'zod';
+    export const greetingTool = {
+      name: 'greeting',
+      description: ${JSON.stringify(description)},
+      schema: z.object({}),
+      onUnload: async () => { globalThis.__greetingUnloads = (globalThis.__greetingUnloads ?? 0) + 1; },
+      execute: async () => ${JSON.stringify(description)}
+    };
+  `);
+  return modulePath;
+}
+
+function writePersona(name: string) {
+  const modulePath = path.join(personaDir, 'temp', 'index.js');
+  fs.mkdirSync(path.dirname(modulePath), { recursive: true });
+  fs.writeFileSync(modulePath, `
+    import { PersonaRegistry } from ${JSON.stringify(typesModule)};
+    PersonaRegistry.register({ id: 'temp-persona', name: ${JSON.stringify(name)} });
+  `);
+  return modulePath;
+}
+
+describe('HotReloader', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let registry: ToolRegistry;
+  let reloader: HotReloader;
+
+  beforeEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.mkdirSync(toolDir, { recursive: true });
+    fs.mkdirSync(personaDir, { recursive: true });
+    bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    reloader = new HotReloader(registry, { toolDirs: [toolDir], personaDirs: [personaDir] }, bus);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    PersonaRegistry.unregister('temp-persona');
+  });
+
+  test('replaces a changed tool, keeping its source and enabled state', async () => {
+    const modulePath = writeTool('first version');
+    await reloader.reloadModule(modulePath);
+    registry.setEnabled('greeting', false);
+    const events: any[] = [];
+    bus.on('registry:reload', (event) => events.push(event));
+
+    writeTool('second version');
+    const result = await reloader.reloadModule(modulePath);
+
+    expect(result.tools).toEqual(['greeting']);
+    expect(registry.getRegistration('greeting')?.tool.description).toBe('second version');
+    expect(registry.getRegistration('greeting')?.source).toBe(modulePath);
+    expect(registry.getRegistration('greeting')?.enabled).toBe(false);
+    expect((globalThis as any).__greetingUnloads).toBe(1);
+    expect(events).toEqual([{ module: modulePath, tools: ['greeting'], personas: [] }]);
+  });
+
+  test('replaces a changed persona in PersonaRegistry', async () => {
+    const modulePath = writePersona('Before');
+    await reloader.reloadModule(modulePath);
+
+    writePersona('After');
+    const result = await reloader.reloadModule(modulePath);
+
+    expect(result.personas).toEqual(['temp-persona']);
+    expect(PersonaRegistry.get('temp-persona')?.name).toBe('After');
+  });
+
+  test('reports modules that fail to load without touching the registry', async () => {
+    const modulePath = writeTool('working');
+    await reloader.reloadModule(modulePath);
+    fs.writeFileSync(modulePath, 'export const broken = ;');
+
+    const result = await reloader.reloadModule(modulePath);
+
+    expect(result.error).toBeDefined();
+    expect(registry.getRegistration('greeting')?.tool.description).toBe('working');
+  });
+
+  test('unregisters the tools and personas of deleted modules', async () => {
+    const toolModule = writeTool('doomed');
+    const personaModule = writePersona('Doomed');
+    await reloader.reloadModule(toolModule);
+    await reloader.reloadModule(personaModule);
+    const events: any[] = [];
+    bus.on('registry:reload', (event) => events.push(event));
+
+    fs.rmSync(toolModule);
+    fs.rmSync(personaModule);
+    await reloader.removeModule(toolModule);
+    await reloader.removeModule(personaModule);
+
+    expect(registry.getRegistration('greeting')).toBeUndefined();
+    expect(PersonaRegistry.get('temp-persona')).toBeUndefined();
+    expect(events).toEqual([
+      { module: toolModule, tools: ['greeting'], personas: [], removed: true },
+      { module: personaModule, tools: [], personas: ['temp-persona'], removed: true }
+    ]);
+  });
+
+  test('sends tools/list_changed to connected clients after a reload', async () => {
+    const server = createMcpServer({ registry, dispatch: async () => ({ content: [] }), eventBus: bus });
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const listChanged = new Promise<void>((resolve) => {
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () => resolve());
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    expect(client.getServerCapabilities()?.tools?.listChanged).toBe(true);
+    await reloader.reloadModule(writeTool('announced'));
+    await listChanged;
+
+    await client.close();
+    expect(bus.listenerCount('registry:reload')).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import http from 'node:http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import { HttpTransportHost, type HttpTransportOptions } from '../src/infra/httpTransport.js';
+import { createMcpServer } from '../src/server.js';
+
+function request(port: number, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ host: '127.0.0.1', port, path: '/health', headers }, (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      })
+      .on('error', reject);
+  });
+}
+
+describe('HttpTransportHost', () => {
+  let host: HttpTransportHost | undefined;
+  let closedServers = 0;
+
+  afterEach(async () => {
+    await host?.close();
+    host = undefined;
+    closedServers = 0;
+  });
+
+  async function start(options: Partial<HttpTransportOptions> = {}) {
+    const bus = new EventBusClass();
+    host = new HttpTransportHost({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: () => {
+        const server = createMcpServer({
+          registry: new ToolRegistry(bus),
+          dispatch: async () => ({ content: [] }),
+          eventBus: bus
+        });
+        const close = server.close.bind(server);
+        server.close = () => {
+          closedServers++;
+          return close();
+        };
+        return server;
+      },
+      ...options
+    });
+    return (await host.start()).port;
+  }
+
+  test('rejects foreign Host and Origin headers', async () => {
+    const port = await start({ allowedOrigins: ['https://app.example.com'] });
+
+    expect(await request(port, { host: `localhost:${port}` })).toBe(200);
+    expect(await request(port, { host: `127.0.0.1:${port}`, origin: `http://localhost:${port}` })).toBe(200);
+    expect(await request(port, { host: `127.0.0.1:${port}`, origin: 'https://app.example.com' })).toBe(200);
+    expect(await request(port, { host: `attacker.example:${port}` })).toBe(403);
+    expect(await request(port, { host: `127.0.0.1:${port}`, origin: 'http://attacker.example' })).toBe(403);
+  });
+
+  test('closes the server when initialization fails', async () => {
+    const port = await start();
+
+    const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/plain' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 't', version: '1' } }
+      })
+    });
+
+    expect(response.status).toBe(406);
+    expect(host!.getSessionCounts().streamable).toBe(0);
+    expect(closedServers).toBe(1);
+  });
+
+  test('closes idle sessions', async () => {
+    const port = await start({ sessionIdleTimeout: 50 });
+    const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 't', version: '1' } }
+      })
+    });
+    await response.text();
+    expect(host!.getSessionCounts().streamable).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(host!.getSessionCounts().streamable).toBe(0);
+    expect(closedServers).toBe(1);
+  });
+
+  test('keeps sessions with an open notification stream', async () => {
+    const port = await start({ sessionIdleTimeout: 50 });
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(host!.getSessionCounts().streamable).toBe(1);
+    expect(closedServers).toBe(0);
+    await client.close().catch(() => {});
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'bun:test';
+import { z } from 'zod';
+
+import { buildInputSchema } from '../src/core/inputSchema.js';
+import { builtinTools } from '../src/tools/index.js';
+
+describe('Advertised input schemas', () => {
+  for (const tool of builtinTools) {
+    describe(tool.name, () => {
+      const shape = (tool.schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const inputSchema = buildInputSchema(tool);
+      const properties = inputSchema.properties as Record<string, any>;
+
+      test('advertises every argument the zod schema accepts', () => {
+        expect(Object.keys(properties).sort()).toEqual(Object.keys(shape).sort());
+      });
+
+      test('marks exactly the non-optional arguments as required', () => {
+        const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+        expect((inputSchema.required ?? []).sort()).toEqual(required.sort());
+      });
+
+      test('describes every argument', () => {
+        for (const [key, property] of Object.entries(properties)) {
+          expect({ key, description: property.description }).toEqual({
+            key,
+            description: expect.any(String)
+          });
+        }
+      });
+    });
+  }
+
+  test('includes persona styling options and defaults', () => {
+    const persona = builtinTools.find((t) => t.name === 'persona')!;
+    const properties = buildInputSchema(persona).properties as Record<string, any>;
+
+    expect(properties.tone_style.enum).toEqual(['concise', 'detailed', 'humorous', 'straight']);
+    expect(properties.analysis_type.default).toBe('advice');
+  });
+
+  test('exposes researcher reasoning effort and code-advice persona', () => {
+    const researcher = builtinTools.find((t) => t.name === 'researcher')!;
+    const codeAdvice = builtinTools.find((t) => t.name === 'code-advice')!;
+
+    expect(buildInputSchema(researcher).properties).toHaveProperty('reasoning_effort');
+    expect(buildInputSchema(codeAdvice).properties).toHaveProperty('persona');
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { z } from 'zod';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import { skipMiddlewareTag, type ToolMiddleware } from '../src/core/middleware.js';
+import type { ToolCommand } from '../src/core/ToolCommand.js';
+import { callRequest } from './helpers.js';
+
+describe('Dispatcher middleware', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let registry: ToolRegistry;
+  let dispatcher: CommandDispatcher;
+  let executions: number;
+
+  const shoutTool: ToolCommand<{ message: string; times: number }> = {
+    name: 'shout',
+    description: 'Upper-cases a message',
+    schema: z.object({ message: z.string(), times: z.number().default(1) }),
+    metadata: { tags: ['text'] },
+    execute: async ({ message, times }) => {
+      executions++;
+      return message.toUpperCase().repeat(times);
+    }
+  };
+
+  const failTool: ToolCommand<Record<string, never>> = {
+    name: 'fail',
+    description: 'Always fails',
+    schema: z.object({}),
+    metadata: { tags: ['flaky', skipMiddlewareTag('audit')] },
+    execute: async () => {
+      throw new Error('boom');
+    }
+  };
+
+  beforeEach(async () => {
+    bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    dispatcher = new CommandDispatcher(registry, bus);
+    executions = 0;
+    await registry.register(shoutTool, 'test');
+    await registry.register(failTool, 'test');
+  });
+
+  test('runs before, around and after hooks outermost first', async () => {
+    const order: string[] = [];
+    const tracer = (name: string): ToolMiddleware => ({
+      name,
+      before: () => { order.push(`${name}:before`); },
+      around: async (_invocation, next) => {
+        order.push(`${name}:around`);
+        return next();
+      },
+      after: () => { order.push(`${name}:after`); }
+    });
+    dispatcher.use(tracer('outer')).use(tracer('inner'));
+
+    const response = await dispatcher.dispatch(callRequest('shout', { message: 'hi' }));
+
+    expect(response.content[0].text).toBe('HI');
+    expect(order).toEqual([
+      'outer:before', 'outer:around', 'inner:before', 'inner:around', 'inner:after', 'outer:after'
+    ]);
+  });
+
+  test('sees validated args and context, and can rewrite args and results', async () => {
+    let seen: any;
+    dispatcher.use({
+      name: 'rewrite',
+      before: (invocation) => {
+        seen = { args: invocation.args, tool: invocation.tool.name, requestId: invocation.context.requestId };
+        invocation.args = { ...(invocation.args as object), times: 2 };
+      },
+      after: (_invocation, result) => `${result}!`
+    });
+
+    const response = await dispatcher.dispatch(callRequest('shout', { message: 'hey' }));
+
+    expect(seen).toEqual({ args: { message: 'hey', times: 1 }, tool: 'shout', requestId: expect.any(String) });
+    expect(response.content[0].text).toBe('HEYHEY!');
+  });
+
+  test('short-circuits without running the tool', async () => {
+    const cache = new Map<string, unknown>();
+    dispatcher.use({
+      name: 'cache',
+      before: (invocation) => {
+        const key = JSON.stringify(invocation.args);
+        return cache.has(key) ? { result: cache.get(key) } : undefined;
+      },
+      after: (invocation, result) => { cache.set(JSON.stringify(invocation.args), result); }
+    });
+
+    await dispatcher.dispatch(callRequest('shout', { message: 'once' }));
+    const cached = await dispatcher.dispatch(callRequest('shout', { message: 'once' }));
+
+    expect(cached.content[0].text).toBe('ONCE');
+    expect(executions).toBe(1);
+  });
+
+  test('recovers from errors or lets them surface as tool errors', async () => {
+    dispatcher.use({
+      name: 'fallback',
+      tags: ['flaky'],
+      onError: (invocation, error) => `${invocation.tool.name} failed: ${(error as Error).message}`
+    });
+    const recovered = await dispatcher.dispatch(callRequest('fail'));
+    expect(recovered.content[0].text).toBe('fail failed: boom');
+
+    const rejecting = new CommandDispatcher(registry, bus, {
+      middleware: [{ name: 'auth', before: () => { throw new Error('not allowed'); } }]
+    });
+    const denied = await rejecting.dispatch(callRequest('shout', { message: 'x' }));
+    expect(denied.content[0].text).toContain('not allowed');
+    expect(executions).toBe(0);
+  });
+
+  test('selects tools by tag and honors per-tool skip tags', async () => {
+    const applied: string[] = [];
+    dispatcher
+      .use({ name: 'text-only', tags: ['text'], before: (i) => { applied.push(`text-only:${i.tool.name}`); } })
+      .use({ name: 'audit', before: (i) => { applied.push(`audit:${i.tool.name}`); } })
+      .use({ name: 'no-flaky', excludeTags: ['flaky'], before: (i) => { applied.push(`no-flaky:${i.tool.name}`); } });
+
+    await dispatcher.dispatch(callRequest('shout', { message: 'a' }));
+    await dispatcher.dispatch(callRequest('fail'));
+
+    expect(applied).toEqual(['text-only:shout', 'audit:shout', 'no-flaky:shout']);
+  });
+
+  test('rejects calling next() twice', async () => {
+    dispatcher.use({
+      name: 'retry-wrong',
+      around: async (_invocation, next) => {
+        await next();
+        return next();
+      }
+    });
+
+    const response = await dispatcher.dispatch(callRequest('shout', { message: 'a' }));
+    expect(response.content[0].text).toContain("'retry-wrong' called next() more than once");
+  });
+});
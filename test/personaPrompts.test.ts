@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import { createMcpServer } from '../src/server.js';
+import { getPrompt, listPrompts } from '../src/personaPrompts.js';
+import { ARCHITECT_SYSTEM_PROMPT } from '../src/prompts/architectPrompts.js';
+import '../src/personas/charles/index.js';
+import '../src/personas/sentinel/index.js';
+
+describe('persona prompts', () => {
+  test('offers each persona per analysis type plus its own templates', () => {
+    const names = listPrompts().map((prompt) => prompt.name);
+    expect(names).toEqual(
+      expect.arrayContaining([
+        'charles-comprehensive',
+        'charles-advice',
+        'charles-review',
+        'charles-research',
+        'sentinel-review',
+        'sentinel-threat-model'
+      ])
+    );
+    expect(names).not.toContain('charles-threat-model');
+
+    const review = listPrompts().find((prompt) => prompt.name === 'charles-review');
+    expect(review?.arguments).toEqual([
+      expect.objectContaining({ name: 'task', required: false }),
+      expect.objectContaining({ name: 'code', required: true })
+    ]);
+  });
+
+  test('assembles persona-enhanced messages', () => {
+    const { messages } = getPrompt('charles-comprehensive', {
+      task: 'Split this service?',
+      code: 'class Monolith {}'
+    });
+
+    expect(messages).toHaveLength(2);
+    const [system, user] = messages.map((message) => (message.content as { text: string }).text);
+    expect(system).toStartWith(ARCHITECT_SYSTEM_PROMPT);
+    expect(system).toContain('## Persona: Charles');
+    expect(user).toContain('Split this service?');
+    expect(user).toContain('class Monolith {}');
+
+    const threatModel = getPrompt('sentinel-threat-model', { code: 'app.post("/login", handler)' });
+    expect((threatModel.messages[1].content as { text: string }).text).toContain('STRIDE');
+  });
+
+  test('rejects unknown prompts and missing arguments', () => {
+    expect(() => getPrompt('charles-poetry')).toThrow('Prompt not found');
+    expect(() => getPrompt('charles-research')).toThrow("requires the 'task' argument");
+    expect(() => getPrompt('charles-review', { task: 'Anything wrong?' })).toThrow("requires the 'code' argument");
+  });
+
+  test('serves prompts/list and prompts/get', async () => {
+    const bus = new EventBusClass();
+    const server = createMcpServer({
+      registry: new ToolRegistry(bus),
+      dispatch: async () => ({ content: [] }),
+      eventBus: bus
+    });
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toContain('sentinel-threat-model');
+
+    const result = await client.getPrompt({ name: 'charles-review', arguments: { code: 'let x = 1' } });
+    expect(result.messages[1].content).toMatchObject({ type: 'text' });
+
+    await client.close();
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { z } from 'zod';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { RateLimiter, rateLimiter } from '../src/core/RateLimiter.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import { callAIWithPersona } from '../src/common/personaClient.js';
+import type { ToolCommand } from '../src/core/ToolCommand.js';
+import { OPENAI_API_KEY, XAI_API_KEY } from '../src/common/providerConfig.js';
+import { callRequest, tool } from './helpers.js';
+import '../src/personas/charles/index.js';
+
+const hasApiKey = Boolean(OPENAI_API_KEY || XAI_API_KEY);
+
+describe('Rate limiting', () => {
+  let limiter: RateLimiter;
+  let registry: ToolRegistry;
+  let dispatcher: CommandDispatcher;
+
+  beforeEach(async () => {
+    const bus = new EventBusClass();
+    limiter = new RateLimiter();
+    registry = new ToolRegistry(bus);
+    dispatcher = new CommandDispatcher(registry, bus, { rateLimiter: limiter });
+    await registry.registerAll([tool('ask'), tool('researcher'), tool('discover')], 'test');
+  });
+
+  afterEach(() => {
+    rateLimiter.configure();
+  });
+
+  test('rejects calls beyond the burst with a RESOURCE_ERROR and retry-after', async () => {
+    limiter.configure({ tools: { ask: { capacity: 2, refillPerMinute: 1 } } });
+
+    expect((await dispatcher.dispatch(callRequest('ask'))).isError).toBeUndefined();
+    expect((await dispatcher.dispatch(callRequest('ask'))).isError).toBeUndefined();
+    const limited = await dispatcher.dispatch(callRequest('ask'));
+
+    expect(limited.isError).toBe(true);
+    expect(limited.structuredContent?.error).toMatchObject({
+      code: 'RESOURCE_ERROR',
+      tool: 'ask',
+      retryable: true
+    });
+    const { retryAfterMs } = (limited.structuredContent?.error as { retryAfterMs: number });
+    expect(retryAfterMs).toBeGreaterThan(59_000);
+    expect(retryAfterMs).toBeLessThanOrEqual(60_000);
+    expect(limited.content[0].text).toContain('Retry After: 60s');
+
+    // Other tools have no limit
+    expect((await dispatcher.dispatch(callRequest('discover'))).isError).toBeUndefined();
+  });
+
+  test('gives the token back for calls with invalid arguments', async () => {
+    limiter.configure({ tools: { strict: { capacity: 1, refillPerMinute: 1 } } });
+    await registry.register(
+      { ...tool('strict'), schema: z.object({ count: z.number() }) } as ToolCommand,
+      'test'
+    );
+
+    const invalid = await dispatcher.dispatch(callRequest('strict', { count: 'two' }));
+    expect(invalid.structuredContent?.error).toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect((await dispatcher.dispatch(callRequest('strict', { count: 2 }))).isError).toBeUndefined();
+  });
+
+  test('gives the token back for calls the queue turns away', async () => {
+    const bus = new EventBusClass();
+    const queued = new CommandDispatcher(registry, bus, {
+      rateLimiter: limiter,
+      maxConcurrentExecutions: 1,
+      maxQueueSize: 0
+    });
+    limiter.configure({ tools: { slow: { capacity: 2, refillPerMinute: 1 } } });
+    let finish!: () => void;
+    const gate = new Promise<void>((resolve) => (finish = resolve));
+    await registry.register({ ...tool('slow'), execute: () => gate.then(() => 'done') }, 'test');
+
+    const running = queued.dispatch(callRequest('slow'));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const rejected = await queued.dispatch(callRequest('slow'));
+    expect(rejected.content[0].text).toContain('Execution queue is full');
+
+    finish();
+    await running;
+    expect((await queued.dispatch(callRequest('slow'))).isError).toBeUndefined();
+  });
+
+  test('refills continuously', async () => {
+    limiter.configure({ tools: { ask: { capacity: 1, refillPerMinute: 6000 } } });
+
+    limiter.take('tool', 'ask');
+    expect(() => limiter.take('tool', 'ask')).toThrow(/Rate limit exceeded for tool 'ask'/);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(() => limiter.take('tool', 'ask')).not.toThrow();
+  });
+
+  test('gives every name its own bucket under the * default', () => {
+    limiter.configure({ tools: { '*': { capacity: 1 } } });
+
+    limiter.take('tool', 'ask');
+    limiter.take('tool', 'researcher');
+    expect(() => limiter.take('tool', 'ask')).toThrow();
+  });
+
+  test('reports bucket levels in dispatcher stats', async () => {
+    limiter.configure({
+      tools: { ask: { capacity: 3, refillPerMinute: 1 } },
+      providers: { openai: { capacity: 5 } }
+    });
+    await dispatcher.dispatch(callRequest('ask'));
+
+    expect(dispatcher.getStats().rateLimits).toEqual([
+      expect.objectContaining({ scope: 'tool', key: 'ask', capacity: 3, refillPerMinute: 1, rejected: 0 }),
+      { scope: 'provider', key: 'openai', tokens: 5, capacity: 5, refillPerMinute: 5, rejected: 0 }
+    ]);
+    expect(dispatcher.getStats().rateLimits[0].tokens).toBeCloseTo(2, 1);
+  });
+
+  test('limits persona calls before they reach a provider', async () => {
+    rateLimiter.configure({ personas: { charles: { capacity: 1, refillPerMinute: 1 } } });
+    rateLimiter.take('persona', 'charles');
+
+    await expect(callAIWithPersona({
+      systemPrompt: 'You review code',
+      task: 'Review this',
+      code: 'const x = 1;',
+      analysisType: 'review',
+      reasoningEffort: 'low',
+      personaId: 'charles'
+    })).rejects.toMatchObject({ code: 'RESOURCE_ERROR', message: expect.stringContaining("persona 'charles'") });
+  });
+
+  test('gives the persona token back when the provider limit rejects the call', async () => {
+    rateLimiter.configure({
+      personas: { charles: { capacity: 1, refillPerMinute: 1 } },
+      providers: { sampling: { capacity: 1, refillPerMinute: 1 } }
+    });
+    rateLimiter.take('provider', 'sampling');
+
+    await expect(callAIWithPersona({
+      systemPrompt: 'You review code',
+      task: 'Review this',
+      code: 'const x = 1;',
+      analysisType: 'review',
+      reasoningEffort: 'low',
+      personaId: 'charles',
+      providerOverride: 'sampling',
+      sample: async () => ({ text: 'Looks fine', model: 'client-model' })
+    })).rejects.toMatchObject({ code: 'RESOURCE_ERROR', message: expect.stringContaining("provider 'sampling'") });
+
+    const persona = rateLimiter.getStats().find((bucket) => bucket.scope === 'persona');
+    expect(persona?.tokens).toBeCloseTo(1, 1);
+  });
+
+  test.skipIf(hasApiKey)('gives the persona token back when the provider has no API key', async () => {
+    rateLimiter.configure({ personas: { charles: { capacity: 1, refillPerMinute: 1 } } });
+
+    await expect(callAIWithPersona({
+      systemPrompt: 'You review code',
+      task: 'Review this',
+      code: 'const x = 1;',
+      analysisType: 'review',
+      reasoningEffort: 'low',
+      personaId: 'charles'
+    })).rejects.toMatchObject({ code: 'PERMISSION_ERROR' });
+
+    const persona = rateLimiter.getStats().find((bucket) => bucket.scope === 'persona');
+    expect(persona?.tokens).toBeCloseTo(1, 1);
+  });
+});
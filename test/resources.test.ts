@@ -0,0 +1,136 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { ResultStore } from '../src/core/ResultStore.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import type { ToolCommand } from '../src/core/ToolCommand.js';
+import { createMcpServer } from '../src/server.js';
+import { ARCHITECT_SYSTEM_PROMPT } from '../src/prompts/architectPrompts.js';
+import { callRequest } from './helpers.js';
+import '../src/personas/charles/index.js';
+
+const reportTool: ToolCommand<{ lines: number }> = {
+  name: 'report',
+  description: 'Writes a report of the given length',
+  schema: z.object({ lines: z.number() }),
+  execute: async ({ lines }) =>
+    Array.from({ length: lines }, (_, i) => `Line ${i + 1} of the report`).join('\n')
+};
+
+describe('ResultStore', () => {
+  test('drops the oldest results beyond maxResults and expired ones', () => {
+    const store = new ResultStore({ maxResults: 2, maxAgeMs: 1000 });
+    store.put({ requestId: 'a', tool: 'report', text: 'A', createdAt: Date.now() - 5000 });
+    expect(store.get('a')).toBeUndefined();
+
+    store.put({ requestId: 'b', tool: 'report', text: 'B', createdAt: Date.now() });
+    store.put({ requestId: 'c', tool: 'report', text: 'C', createdAt: Date.now() });
+    store.put({ requestId: 'd', tool: 'report', text: 'D', createdAt: Date.now() });
+
+    expect(store.list().map((result) => result.requestId)).toEqual(['d', 'c']);
+  });
+
+  test('bounds each session separately and drops a closed session', () => {
+    const store = new ResultStore({ maxResults: 2 });
+    store.put({ requestId: 'a', tool: 'report', text: 'A', createdAt: Date.now(), sessionId: 'quiet' });
+    for (const requestId of ['b', 'c', 'd']) {
+      store.put({ requestId, tool: 'report', text: requestId, createdAt: Date.now(), sessionId: 'busy' });
+    }
+
+    expect(store.list('busy').map((result) => result.requestId)).toEqual(['d', 'c']);
+    expect(store.get('a', 'quiet')?.text).toBe('A');
+    expect(store.get('a', 'busy')).toBeUndefined();
+
+    store.dropSession('quiet');
+    expect(store.list('quiet')).toEqual([]);
+  });
+});
+
+describe('MCP resources', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let registry: ToolRegistry;
+  let results: ResultStore;
+  let dispatcher: CommandDispatcher;
+
+  beforeEach(async () => {
+    bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    results = new ResultStore();
+    dispatcher = new CommandDispatcher(registry, bus, { resultStore: results, resultLinkThreshold: 500 });
+    await registry.register(reportTool, 'test');
+  });
+
+  async function connect() {
+    const server = createMcpServer({
+      registry,
+      dispatch: (request, options) => dispatcher.dispatch(request, options),
+      eventBus: bus,
+      results
+    });
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+  }
+
+  test('returns long results as a preview plus a resource link', async () => {
+    const short = await dispatcher.dispatch(callRequest('report', { lines: 3 }));
+    expect(short.content).toHaveLength(1);
+
+    const long = await dispatcher.dispatch(callRequest('report', { lines: 100 }));
+    expect(long.content[0].text).toStartWith('Line 1 of the report\n');
+    expect(long.content[0].text).toContain('more characters; read result://');
+    expect(long.content[1]).toMatchObject({ type: 'resource_link', mimeType: 'text/markdown' });
+
+    const stored = results.get(long.content[1].uri.replace('result://', ''));
+    expect(stored?.text.split('\n')).toHaveLength(100);
+  });
+
+  test('lists and reads personas, prompts and results', async () => {
+    const client = await connect();
+    const call = (await client.callTool({ name: 'report', arguments: { lines: 100 } })) as any;
+
+    expect(client.getServerCapabilities()?.resources).toBeDefined();
+
+    const { resources } = await client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+    expect(uris).toContain('persona://charles');
+    expect(uris).toContain('prompt://architect');
+    expect(uris).toContain(call.content[1].uri);
+
+    const persona = await client.readResource({ uri: 'persona://charles' });
+    const body = JSON.parse(persona.contents[0].text as string);
+    expect(body.expertise.length).toBeGreaterThan(0);
+    expect(body.exampleQueries.length).toBeGreaterThan(0);
+
+    const prompt = await client.readResource({ uri: 'prompt://architect' });
+    expect(prompt.contents[0].text).toBe(ARCHITECT_SYSTEM_PROMPT);
+
+    const result = await client.readResource({ uri: call.content[1].uri });
+    expect(result.contents[0].text).toContain('Line 100 of the report');
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toContain('result://{requestId}');
+
+    await expect(client.readResource({ uri: 'result://req_missing' })).rejects.toThrow('Resource not found');
+    await client.close();
+  });
+
+  test('only shows a session its own results', async () => {
+    const owner = await connect();
+    const other = await connect();
+    const call = (await owner.callTool({ name: 'report', arguments: { lines: 100 } })) as any;
+    const uri = call.content[1].uri;
+
+    expect((await owner.listResources()).resources.map((resource) => resource.uri)).toContain(uri);
+    expect((await other.listResources()).resources.map((resource) => resource.uri)).not.toContain(uri);
+    await expect(other.readResource({ uri })).rejects.toThrow('Resource not found');
+
+    await owner.close();
+    await other.close();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CreateMessageRequestSchema, type CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import { createMcpServer } from '../src/server.js';
+import { architectTool } from '../src/tools/architect.js';
+import { ARCHITECT_SYSTEM_PROMPT } from '../src/prompts/architectPrompts.js';
+import {
+  OPENAI_API_KEY,
+  XAI_API_KEY,
+  configureProviders,
+  getDefaultProvider,
+  resolveProvider,
+  validateProvider
+} from '../src/common/providerConfig.js';
+import '../src/personas/charles/index.js';
+
+const hasApiKey = Boolean(OPENAI_API_KEY || XAI_API_KEY);
+
+describe('sampling provider', () => {
+  let registry: ToolRegistry;
+  let dispatcher: CommandDispatcher;
+  let requests: CreateMessageRequest['params'][];
+
+  beforeEach(async () => {
+    const bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    dispatcher = new CommandDispatcher(registry, bus);
+    await registry.register(architectTool, 'builtin');
+    requests = [];
+  });
+
+  async function connect(sampling: boolean) {
+    const server = createMcpServer({
+      registry,
+      dispatch: (request, options) => dispatcher.dispatch(request, options),
+      eventBus: new EventBusClass()
+    });
+    const client = new Client({ name: 'test', version: '1.0.0' }, { capabilities: sampling ? { sampling: {} } : {} });
+    if (sampling) {
+      client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+        requests.push(request.params);
+        return { role: 'assistant', model: 'client-model', content: { type: 'text', text: 'Keep it a monolith.' } };
+      });
+    }
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+  }
+
+  test.skipIf(hasApiKey)('falls back to the client model when no API key is set', async () => {
+    const client = await connect(true);
+
+    const result = await client.callTool({
+      name: 'architect',
+      arguments: { task: 'Split this service?', code: 'class Monolith {}', persona: 'charles' }
+    });
+
+    expect(result.isError).toBeFalsy();
+    const text = (result.content as Array<{ text: string }>)[0].text;
+    expect(text).toContain('Keep it a monolith.');
+    expect(text).toContain('MCP sampling (client-model)');
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].systemPrompt).toStartWith(ARCHITECT_SYSTEM_PROMPT);
+    expect(requests[0].systemPrompt).toContain('## Persona: Charles');
+    expect(requests[0].messages[0].content).toMatchObject({ type: 'text' });
+    expect(JSON.stringify(requests[0].messages[0].content)).toContain('class Monolith {}');
+    await client.close();
+  });
+
+  test.skipIf(hasApiKey)('keeps the missing-key error for clients without sampling', async () => {
+    const client = await connect(false);
+
+    const result = await client.callTool({ name: 'architect', arguments: { task: 'Split this service?', code: 'class Monolith {}' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'PERMISSION_ERROR' } });
+    await client.close();
+  });
+
+  test('requires client support when selected explicitly', () => {
+    expect(resolveProvider('sampling', false)).toBe('sampling');
+    expect(() => validateProvider('sampling', false)).toThrow('requires an MCP client that supports sampling');
+    expect(() => validateProvider('sampling', true)).not.toThrow();
+  });
+});
+
+describe('sampling as the default provider', () => {
+  const saved = { xai: process.env.XAI_API_KEY, openai: process.env.OPENAI_API_KEY };
+  const savedDefault = getDefaultProvider();
+
+  beforeEach(() => {
+    configureProviders({ provider: 'sampling' });
+    process.env.XAI_API_KEY = 'xai-test-key';
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  afterEach(() => {
+    configureProviders({ provider: savedDefault });
+    for (const [name, value] of [['XAI_API_KEY', saved.xai], ['OPENAI_API_KEY', saved.openai]] as const) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  test('samples when no provider was named', () => {
+    expect(resolveProvider('xai', true)).toBe('sampling');
+    expect(resolveProvider('openai', true)).toBe('sampling');
+  });
+
+  test('keeps a named provider that has an API key', () => {
+    expect(resolveProvider('xai', true, true)).toBe('xai');
+    expect(resolveProvider('xai', false, true)).toBe('xai');
+  });
+
+  test('samples when the named provider has no API key', () => {
+    expect(resolveProvider('openai', true, true)).toBe('sampling');
+    expect(resolveProvider('sampling', true, true)).toBe('sampling');
+  });
+});
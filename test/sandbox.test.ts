@@ -0,0 +1,162 @@
+import { describe, test, expect, beforeEach, afterAll } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { workerFailureToError } from '../src/core/SandboxRunner.js';
+import { ToolDiscovery, collectToolExports } from '../src/core/ToolDiscovery.js';
+import { buildInputSchema } from '../src/core/inputSchema.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import type { ToolCommand } from '../src/core/ToolCommand.js';
+import { callRequest } from './helpers.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const toolsModule = path.join(__dirname, 'fixtures', 'sandbox', 'tools.js');
+const sandboxRoot = path.join(__dirname, 'temp-sandbox');
+const declaredPlugins = path.join(__dirname, 'fixtures', 'sandbox-plugins');
+
+describe('Sandboxed execution', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let registry: ToolRegistry;
+  let dispatcher: CommandDispatcher;
+
+  beforeEach(async () => {
+    fs.mkdirSync(sandboxRoot, { recursive: true });
+    fs.writeFileSync(path.join(sandboxRoot, 'inside.txt'), 'inside the sandbox');
+
+    bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    dispatcher = new CommandDispatcher(registry, bus, { sandboxRoot });
+    for (const tool of collectToolExports(await import(toolsModule))) {
+      await registry.register(tool as ToolCommand, toolsModule);
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(sandboxRoot, { recursive: true, force: true });
+  });
+
+  test('runs the tool in a worker and relays progress', async () => {
+    const updates: string[] = [];
+    const response = await dispatcher.dispatch(
+      callRequest('sandbox-read', { path: path.join(sandboxRoot, 'inside.txt') }),
+      { onProgress: (update) => updates.push(update.message) }
+    );
+
+    expect(response.isError).toBeUndefined();
+    expect(response.content[0].text).toBe('inside the sandbox');
+    expect(updates).toEqual([`Reading ${path.join(sandboxRoot, 'inside.txt')}`]);
+  });
+
+  test('rejects file access outside the allowlisted root', async () => {
+    const response = await dispatcher.dispatch(
+      callRequest('sandbox-read', { path: path.join(os.tmpdir(), 'outside.txt') })
+    );
+
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent?.error).toMatchObject({
+      code: 'SANDBOX_ERROR',
+      retryable: false
+    });
+    expect(response.content[0].text).toContain('outside sandbox root');
+  });
+
+  test('rejects escaping the root through a symlink', async () => {
+    const link = path.join(sandboxRoot, 'escape');
+    fs.rmSync(link, { force: true });
+    fs.symlinkSync(os.tmpdir(), link);
+
+    const response = await dispatcher.dispatch(
+      callRequest('sandbox-read', { path: path.join(link, 'outside.txt') })
+    );
+
+    expect(response.structuredContent?.error.code).toBe('SANDBOX_ERROR');
+  });
+
+  test('blocks child processes', async () => {
+    const response = await dispatcher.dispatch(callRequest('sandbox-spawn'));
+
+    expect(response.structuredContent?.error.code).toBe('SANDBOX_ERROR');
+    expect(response.content[0].text).toContain('child_process.execSync is not allowed');
+  });
+
+  test('hard-kills a tool that never yields once it times out', async () => {
+    const started = Date.now();
+    const response = await dispatcher.dispatch(callRequest('sandbox-spin'));
+
+    expect(response.structuredContent?.error.code).toBe('TIMEOUT_ERROR');
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(dispatcher.getStats().activeExecutions).toBe(0);
+  });
+
+  test('keeps error codes and hints thrown inside the worker', async () => {
+    const response = await dispatcher.dispatch(callRequest('sandbox-fail'));
+
+    expect(response.structuredContent?.error).toMatchObject({
+      code: 'RESOURCE_ERROR',
+      message: 'Quota exceeded upstream',
+      remediation: 'Wait for the quota to reset'
+    });
+  });
+
+  test('refuses sandboxed tools that were not loaded from a module file', async () => {
+    const [tool] = collectToolExports(await import(toolsModule)) as ToolCommand[];
+    await registry.unregister(tool.name);
+    await registry.register(tool, 'builtin');
+
+    const response = await dispatcher.dispatch(callRequest(tool.name, { path: 'x' }));
+
+    expect(response.structuredContent?.error.code).toBe('SANDBOX_ERROR');
+  });
+
+  test('loads manifest-declared tools without importing them in the main process', async () => {
+    const result = await new ToolDiscovery(registry, bus).discoverDirectory(declaredPlugins);
+
+    expect(result.errors).toEqual([]);
+    expect((globalThis as any).__declaredImported).toBeUndefined();
+    const tool = registry.getRegistration('sandbox-count')!.tool;
+    expect(tool.metadata?.constraints).toMatchObject({ requiresSandbox: true, maxMemory: 64 * 1024 * 1024 });
+    expect(buildInputSchema(tool).required).toEqual(['path']);
+
+    const response = await dispatcher.dispatch(
+      callRequest('sandbox-count', { path: path.join(sandboxRoot, 'inside.txt') })
+    );
+    expect(response.content[0].text).toBe('18 characters');
+
+    const invalid = await dispatcher.dispatch(callRequest('sandbox-count', { path: 42 }));
+    expect(invalid.structuredContent?.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  test('confines module top-level code too', async () => {
+    await new ToolDiscovery(registry, bus).discoverDirectory(declaredPlugins);
+
+    const response = await dispatcher.dispatch(callRequest('sandbox-eager'));
+
+    expect(response.structuredContent?.error.code).toBe('SANDBOX_ERROR');
+    expect(response.content[0].text).toContain('outside sandbox root');
+  });
+
+  test('refuses sandboxed plugins without a manifest instead of registering them', async () => {
+    const result = await new ToolDiscovery(new ToolRegistry(bus), bus).discoverDirectory(
+      path.dirname(toolsModule)
+    );
+
+    expect(result.registered).toEqual([]);
+    expect(result.errors[0].message).toContain('tools.sandbox.json');
+  });
+
+  test('reports a worker running out of memory as a RESOURCE_ERROR', () => {
+    const oom = Object.assign(new Error('Worker terminated due to reaching memory limit'), {
+      code: 'ERR_WORKER_OUT_OF_MEMORY'
+    });
+
+    const error = workerFailureToError(oom, 'hungry', 64);
+
+    expect(error.code).toBe('RESOURCE_ERROR');
+    expect(error.message).toContain('64MB');
+    expect(error.retryable).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, test, expect, beforeEach, afterAll } from 'bun:test';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+
+import {
+  ConfigError,
+  loadServerConfig,
+  resolveDisabledTools,
+  resolveToolConfigs,
+  PROJECT_CONFIG_FILE
+} from '../src/common/serverConfig.js';
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import type { ToolCommand } from '../src/core/ToolCommand.js';
+import { builtinTools } from '../src/tools/index.js';
+import { createToolAdminTool } from '../src/tools/toolAdmin.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const tempDir = path.join(__dirname, 'temp-config');
+const projectDir = path.join(tempDir, 'project');
+const userConfigPath = path.join(tempDir, 'user', 'config.json');
+
+function writeJson(filePath: string, value: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+function load(env: NodeJS.ProcessEnv = {}) {
+  return loadServerConfig({ env, cwd: projectDir, userConfigPath });
+}
+
+const greeterTool: ToolCommand<Record<string, never>> = {
+  name: 'greeter',
+  description: 'Greets using configured text',
+  schema: z.object({}),
+  metadata: {
+    configSchema: z.object({ greeting: z.string().default('hello') })
+  },
+  execute: async (_args, context) => context.config?.greeting
+};
+
+describe('loadServerConfig', () => {
+  beforeEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.mkdirSync(projectDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('returns an empty config when no layer is present', () => {
+    expect(load()).toEqual({ config: {}, sources: [] });
+  });
+
+  test('layers user file, project file and env in order', () => {
+    writeJson(userConfigPath, {
+      provider: 'openai',
+      models: { openai: 'gpt-user', xai: 'grok-user' },
+      tools: { screenshot: { baseUrl: 'http://localhost:4000' } }
+    });
+    writeJson(path.join(projectDir, PROJECT_CONFIG_FILE), {
+      models: { openai: 'gpt-project' },
+      dispatcher: { defaultTimeout: 45000 }
+    });
+
+    const { config, sources } = load({ XAI_MODEL: 'grok-env', CODING_MCP_TIMEOUT: '90000' });
+
+    expect(config).toEqual({
+      provider: 'openai',
+      models: { openai: 'gpt-project', xai: 'grok-env' },
+      dispatcher: { defaultTimeout: 90000 },
+      tools: { screenshot: { baseUrl: 'http://localhost:4000' } }
+    });
+    expect(sources).toEqual([userConfigPath, path.join(projectDir, PROJECT_CONFIG_FILE), 'env']);
+  });
+
+  test('reports every invalid layer with its source', () => {
+    writeJson(userConfigPath, '{ not json');
+    writeJson(path.join(projectDir, PROJECT_CONFIG_FILE), { provider: 'anthropic', dispatcher: { timeout: 5 } });
+
+    let error: unknown;
+    try {
+      load({ AI_PROVIDER: 'gemini' });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    const issues = (error as ConfigError).issues;
+    expect(issues).toHaveLength(4);
+    expect(issues[0]).toStartWith(userConfigPath);
+    expect(issues.some((i) => i.includes('provider') && i.includes(PROJECT_CONFIG_FILE))).toBe(true);
+    expect(issues.some((i) => i.includes("Unrecognized key(s) in object: 'timeout'"))).toBe(true);
+    expect(issues[3]).toStartWith('AI_PROVIDER');
+  });
+});
+
+describe('resolveToolConfigs', () => {
+  test('applies configSchema defaults for every configurable tool', () => {
+    const resolved = resolveToolConfigs(builtinTools);
+
+    expect(resolved.screenshot).toEqual({ baseUrl: 'http://localhost:3000' });
+    expect(resolved.researcher).toEqual({ defaultEngines: ['google', 'xai'], maxResultsPerEngine: 5 });
+  });
+
+  test('rejects invalid sections, unknown tools and unconfigurable tools', () => {
+    expect(() =>
+      resolveToolConfigs(builtinTools, {
+        screenshot: { baseUrl: 'not a url' },
+        screnshot: {},
+        discover: { verbose: true }
+      })
+    ).toThrow(
+      /no tool named 'screnshot'[\s\S]*'discover' does not accept configuration[\s\S]*tools\.screenshot: baseUrl: Invalid url/
+    );
+  });
+
+  test('passes the validated section to the tool as CommandContext.config', async () => {
+    const bus = new EventBusClass();
+    const registry = new ToolRegistry(bus);
+    await registry.register(greeterTool, 'test');
+    const dispatcher = new CommandDispatcher(registry, bus, {
+      toolConfig: resolveToolConfigs(registry.list(), { greeter: { greeting: 'howdy' } })
+    });
+
+    const response = await dispatcher.dispatch({
+      method: 'tools/call',
+      params: { name: 'greeter', arguments: {} }
+    });
+
+    expect(response.content[0].text).toBe('howdy');
+  });
+});
+
+describe('resolveDisabledTools', () => {
+  test('disables denylisted tools and everything outside the allowlist', () => {
+    expect(resolveDisabledTools(builtinTools, { disabledTools: ['screenshot', 'researcher@1'] })).toEqual([
+      'screenshot@1.0.0', 'researcher@1.0.0'
+    ]);
+    expect(
+      resolveDisabledTools(builtinTools, { enabledTools: ['ask', 'persona', 'discover'], disabledTools: ['persona'] })
+    ).toEqual(['screenshot@1.0.0', 'architect@1.0.0', 'code-review@1.0.0', 'code-advice@1.0.0', 'researcher@1.0.0', 'persona@1.0.0']);
+  });
+
+  test('keeps tool-admin and server-status on under an allowlist', () => {
+    const registry = new ToolRegistry(new EventBusClass());
+    const admin = createToolAdminTool({ registry });
+    const status = { ...admin, name: 'server-status' };
+
+    const disabled = resolveDisabledTools([admin, status, ...builtinTools], { enabledTools: ['ask'] });
+    expect(disabled).toContain('screenshot@1.0.0');
+    expect(disabled).not.toContain('tool-admin@1.0.0');
+    expect(disabled).not.toContain('server-status@1.0.0');
+    expect(resolveDisabledTools([admin, status], { enabledTools: ['tool-admin'] })).toEqual([]);
+    expect(resolveDisabledTools([admin, status], { enabledTools: ['server-status'], disabledTools: ['tool-admin'] })).toEqual([
+      'tool-admin@1.0.0'
+    ]);
+  });
+
+  test('reads comma-separated lists from env vars', () => {
+    const { config } = load({ CODING_MCP_DISABLED_TOOLS: 'screenshot, researcher' });
+    expect(config.disabledTools).toEqual(['screenshot', 'researcher']);
+  });
+
+  test('rejects entries that match no registered tool', () => {
+    expect(() => resolveDisabledTools(builtinTools, { enabledTools: ['ask'], disabledTools: ['screnshot', 'ask@2'] })).toThrow(
+      /disabledTools: no tool matching 'screnshot'[\s\S]*disabledTools: no tool matching 'ask@2'/
+    );
+  });
+});
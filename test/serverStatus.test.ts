@@ -0,0 +1,76 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { z } from 'zod';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import type { ToolCommand } from '../src/core/ToolCommand.js';
+import { createServerStatusTool } from '../src/tools/serverStatus.js';
+import { callRequest } from './helpers.js';
+import '../src/personas/charles/index.js';
+
+describe('server-status tool', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let registry: ToolRegistry;
+  let dispatcher: CommandDispatcher;
+  let releaseSlow: () => void;
+
+  const slowTool: ToolCommand<Record<string, never>> = {
+    name: 'slow',
+    description: 'Waits until released',
+    schema: z.object({}),
+    execute: () => new Promise((resolve) => { releaseSlow = () => resolve('done'); })
+  };
+
+  beforeEach(async () => {
+    bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    dispatcher = new CommandDispatcher(registry, bus);
+    await registry.register(slowTool, 'test');
+    await registry.register(createServerStatusTool({ registry, dispatcher, eventBus: bus }), 'builtin');
+  });
+
+  test('reports tools, in-flight requests, personas and providers as JSON', async () => {
+    const pending = dispatcher.dispatch(callRequest('slow'));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const response = await dispatcher.dispatch(callRequest('server-status', { format: 'json' }));
+    const status = JSON.parse(response.content[0].text!);
+
+    expect(status.tools.map((t: any) => t.name).sort()).toEqual(['server-status', 'slow']);
+    expect(status.tools.every((t: any) => t.enabled)).toBe(true);
+    expect(status.activeExecutions.map((e: any) => e.toolName)).toContain('slow');
+    expect(status.activeExecutions[0].ageMs).toBeGreaterThanOrEqual(0);
+    expect(status.personas.map((p: any) => p.id)).toContain('charles');
+    expect(typeof status.providers.openai).toBe('boolean');
+    expect(status.eventBus.suspectedLeaks).toEqual([]);
+
+    releaseSlow();
+    await pending;
+  });
+
+  test('flags events with an unusual number of listeners', async () => {
+    for (let i = 0; i < 12; i++) {
+      bus.on('tool:progress', () => {});
+    }
+
+    const response = await dispatcher.dispatch(callRequest('server-status'));
+    const text = response.content[0].text!;
+
+    expect(text).toContain('## Tools (2/2 enabled)');
+    expect(text).toContain('Possible listener leaks');
+    expect(text).toContain('tool:progress: 12 listeners');
+  });
+
+  test('does not count per-session server listeners as leaks', async () => {
+    for (let i = 0; i < 12; i++) {
+      bus.on('tool:enabled', () => {}, 'McpServer');
+    }
+
+    const response = await dispatcher.dispatch(callRequest('server-status', { format: 'json' }));
+    const status = JSON.parse(response.content[0].text!);
+
+    expect(status.eventBus.suspectedLeaks).toEqual([]);
+    expect(status.eventBus.eventCounts['tool:enabled']).toBe(12);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { z } from 'zod';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import { GracefulShutdown } from '../src/infra/shutdown.js';
+import { callRequest } from './helpers.js';
+
+describe('Graceful shutdown', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let registry: ToolRegistry;
+  let dispatcher: CommandDispatcher;
+  let unloaded: string[];
+
+  beforeEach(async () => {
+    bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    dispatcher = new CommandDispatcher(registry, bus);
+    unloaded = [];
+
+    await registry.register({
+      name: 'sleep',
+      description: 'Sleeps for the given time unless aborted',
+      schema: z.object({ ms: z.number() }),
+      execute: ({ ms }, context) => new Promise((resolve, reject) => {
+        const timer = setTimeout(() => resolve(`slept ${ms}`), ms);
+        context.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(context.signal?.reason);
+        });
+      }),
+      onUnload: async () => { unloaded.push('sleep'); }
+    }, 'test');
+  });
+
+  test('finishes in-flight calls and refuses new ones', async () => {
+    const inFlight = dispatcher.dispatch(callRequest('sleep', { ms: 30 }));
+    const shutdown = dispatcher.shutdown(1000);
+
+    const refused = await dispatcher.dispatch(callRequest('sleep', { ms: 1 }));
+    expect(refused.content[0].text).toContain('RESOURCE_ERROR');
+    expect(refused.content[0].text).toContain('shutting down');
+
+    expect((await inFlight).content[0].text).toBe('slept 30');
+    expect(await shutdown).toEqual({ drained: true, aborted: 0 });
+    expect(dispatcher.isShuttingDown()).toBe(true);
+  });
+
+  test('aborts calls still running after the grace period', async () => {
+    const inFlight = dispatcher.dispatch(callRequest('sleep', { ms: 10000 }));
+
+    expect(await dispatcher.shutdown(20)).toEqual({ drained: false, aborted: 1 });
+
+    const response = await inFlight;
+    expect(response.content[0].text).toContain('CANCELLED');
+    expect(response.content[0].text).toContain('because the server is shutting down');
+  });
+
+  test('drains, unloads tools, closes resources, then exits', async () => {
+    const steps: string[] = [];
+    bus.on('system:shutdown', ({ reason }) => steps.push(`event:${reason}`));
+
+    const inFlight = dispatcher.dispatch(callRequest('sleep', { ms: 20 }))
+      .then(() => steps.push('drained'));
+
+    await new GracefulShutdown({
+      dispatcher,
+      registry,
+      eventBus: bus,
+      gracePeriod: 1000,
+      closeResources: async () => { steps.push(`close:${unloaded.join(',')}`); },
+      exit: (code) => { steps.push(`exit:${code}`); }
+    }).shutdown('SIGTERM');
+    await inFlight;
+
+    expect(steps).toEqual(['drained', 'event:SIGTERM', 'close:sleep', 'exit:0']);
+    expect(registry.getStats().totalTools).toBe(0);
+  });
+});
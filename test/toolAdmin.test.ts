@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import { createToolAdminTool } from '../src/tools/toolAdmin.js';
+import { createMcpServer } from '../src/server.js';
+import { callRequest, tool } from './helpers.js';
+
+describe('tool-admin tool', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let registry: ToolRegistry;
+  let dispatcher: CommandDispatcher;
+
+  beforeEach(async () => {
+    bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    dispatcher = new CommandDispatcher(registry, bus);
+    await registry.registerAll([tool('screenshot'), tool('git'), tool('code-review', ['git'])], 'test');
+    await registry.register(createToolAdminTool({ registry }), 'builtin');
+  });
+
+  test('disables and re-enables tools at runtime', async () => {
+    const response = await dispatcher.dispatch(callRequest('tool-admin', { action: 'disable', tools: ['screenshot'] }));
+    expect(response.isError).toBeUndefined();
+    expect(response.content[0].text).toContain('- Disabled screenshot');
+    expect(registry.get('screenshot')).toBeUndefined();
+
+    const call = await dispatcher.dispatch(callRequest('screenshot'));
+    expect(call.structuredContent?.error).toMatchObject({ code: 'TOOL_NOT_FOUND' });
+
+    await dispatcher.dispatch(callRequest('tool-admin', { action: 'enable', tools: ['screenshot'] }));
+    expect(registry.get('screenshot')).toBeDefined();
+  });
+
+  test('refuses to strand dependents unless cascading', async () => {
+    const refused = await dispatcher.dispatch(callRequest('tool-admin', { action: 'disable', tools: ['git'] }));
+    expect(refused.structuredContent?.error).toMatchObject({ code: 'DEPENDENCY_ERROR' });
+
+    const cascaded = await dispatcher.dispatch(
+      callRequest('tool-admin', { action: 'disable', tools: ['git'], cascade: true })
+    );
+    expect(cascaded.content[0].text).toContain('- Disabled git\n- Disabled code-review');
+  });
+
+  test('rejects unknown tools and disabling itself without changing anything', async () => {
+    const unknown = await dispatcher.dispatch(
+      callRequest('tool-admin', { action: 'disable', tools: ['screenshot', 'screnshot'] })
+    );
+    expect(unknown.structuredContent?.error).toMatchObject({ code: 'TOOL_NOT_FOUND' });
+    expect(registry.get('screenshot')).toBeDefined();
+
+    const self = await dispatcher.dispatch(callRequest('tool-admin', { action: 'disable', tools: ['tool-admin'] }));
+    expect(self.structuredContent?.error).toMatchObject({ code: 'PERMISSION_ERROR' });
+  });
+
+  test('undoes the whole batch when one tool is refused', async () => {
+    const events: string[] = [];
+    bus.on('tool:disabled', ({ name }) => events.push(`disabled ${name}`));
+    bus.on('tool:enabled', ({ name }) => events.push(`enabled ${name}`));
+
+    const refused = await dispatcher.dispatch(
+      callRequest('tool-admin', { action: 'disable', tools: ['screenshot', 'git'] })
+    );
+
+    expect(refused.structuredContent?.error).toMatchObject({ code: 'DEPENDENCY_ERROR' });
+    expect(registry.get('screenshot')).toBeDefined();
+    expect(events).toEqual(['disabled screenshot', 'enabled screenshot']);
+  });
+
+  test('keeps tools disabled by the server config off', async () => {
+    registry.setEnabled('git', false, { cascade: true });
+    await registry.unregister('tool-admin');
+    await registry.register(createToolAdminTool({ registry, configDisabled: new Set(['git']) }), 'builtin');
+
+    const direct = await dispatcher.dispatch(callRequest('tool-admin', { action: 'enable', tools: ['git'] }));
+    expect(direct.structuredContent?.error).toMatchObject({
+      code: 'PERMISSION_ERROR',
+      message: "Tool 'git' is disabled by the server config (enabledTools/disabledTools)"
+    });
+
+    const cascaded = await dispatcher.dispatch(
+      callRequest('tool-admin', { action: 'enable', tools: ['code-review'], cascade: true })
+    );
+    expect(cascaded.structuredContent?.error).toMatchObject({ code: 'PERMISSION_ERROR' });
+    expect(registry.get('git')).toBeUndefined();
+    expect(registry.get('code-review')).toBeUndefined();
+  });
+
+  test('updates tools/list and notifies connected clients once per change', async () => {
+    const server = createMcpServer({
+      registry,
+      dispatch: (request) => dispatcher.dispatch(request),
+      eventBus: bus
+    });
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    let notifications = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => { notifications++; });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    await client.callTool({ name: 'tool-admin', arguments: { action: 'disable', tools: ['git'], cascade: true } });
+    const { tools } = await client.listTools();
+
+    expect(tools.map((t) => t.name).sort()).toEqual(['screenshot', 'tool-admin']);
+    expect(notifications).toBe(1);
+
+    await client.close();
+    expect(bus.listenerCount('tool:disabled')).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, test, expect, beforeEach, afterAll } from 'bun:test';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { ToolDiscovery } from '../src/core/ToolDiscovery.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import type { ToolCommand } from '../src/core/ToolCommand.js';
+import { tool } from './helpers.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const pluginDir = path.join(__dirname, 'temp-deps');
+
+describe('Tool dependencies', () => {
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    registry = new ToolRegistry(new EventBusClass());
+  });
+
+  afterAll(() => {
+    fs.rmSync(pluginDir, { recursive: true, force: true });
+  });
+
+  test('refuses to register a tool before its dependencies', async () => {
+    await expect(registry.register(tool('code-review', ['git']))).rejects.toMatchObject({
+      code: 'DEPENDENCY_ERROR',
+      message: "Tool 'code-review' depends on unregistered tool(s): git"
+    });
+
+    await registry.register(tool('git'));
+    await registry.register(tool('code-review', ['git']));
+    expect(registry.has('code-review')).toBe(true);
+  });
+
+  test('registers a batch in topological order', async () => {
+    const registered: string[] = [];
+    const bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    bus.on('tool:registered', ({ name }) => registered.push(name));
+
+    await registry.registerAll([
+      tool('release', ['code-review', 'changelog']),
+      tool('code-review', ['git']),
+      tool('changelog', ['git']),
+      tool('git')
+    ]);
+
+    expect(registered).toEqual(['git', 'code-review', 'changelog', 'release']);
+  });
+
+  test('rejects dependency cycles without registering anything', async () => {
+    const { errors } = registry.resolveLoadOrder([
+      tool('a', ['b']),
+      tool('b', ['c']),
+      tool('c', ['a']),
+      tool('d', ['a'])
+    ]);
+    expect(errors.map((e) => e.message)).toEqual([
+      'Dependency cycle: a -> b -> c -> a',
+      "Tool 'c' depends on 'a', which could not be loaded",
+      "Tool 'b' depends on 'c', which could not be loaded",
+      "Tool 'd' depends on 'a', which could not be loaded"
+    ]);
+
+    await expect(registry.registerAll([tool('a', ['b']), tool('b', ['a'])])).rejects.toMatchObject({
+      code: 'DEPENDENCY_ERROR'
+    });
+    expect(registry.getToolNames()).toEqual([]);
+  });
+
+  test('refuses or cascades unregistering a dependency', async () => {
+    await registry.registerAll([tool('git'), tool('code-review', ['git']), tool('release', ['code-review'])]);
+
+    await expect(registry.unregister('git')).rejects.toThrow(
+      "Cannot unregister 'git': required by code-review"
+    );
+    expect(registry.getToolNames()).toHaveLength(3);
+
+    await registry.unregister('git', 'removed', { cascade: true });
+    expect(registry.getToolNames()).toEqual([]);
+  });
+
+  test('refuses or cascades disabling and enabling', async () => {
+    await registry.registerAll([tool('git'), tool('code-review', ['git']), tool('release', ['code-review'])]);
+
+    expect(() => registry.setEnabled('git', false)).toThrow(
+      "Cannot disable 'git': required by code-review"
+    );
+
+    registry.setEnabled('git', false, { cascade: true });
+    expect(registry.list()).toEqual([]);
+
+    expect(() => registry.setEnabled('release', true)).toThrow(
+      "Cannot enable 'release': dependencies code-review are disabled"
+    );
+    registry.setEnabled('release', true, { cascade: true });
+    expect(registry.list().map((t) => t.name).sort()).toEqual(['code-review', 'git', 'release']);
+  });
+
+  test('refuses to enable a tool whose dependency was force-unregistered', async () => {
+    await registry.registerAll([tool('git'), tool('code-review', ['git'])]);
+    registry.setEnabled('code-review', false);
+    await registry.unregister('git', 'gone', { force: true });
+
+    expect(() => registry.setEnabled('code-review', true, { cascade: true })).toThrow(
+      expect.objectContaining({
+        code: 'DEPENDENCY_ERROR',
+        message: "Cannot enable 'code-review': dependencies git are not registered"
+      })
+    );
+    expect(registry.getRegistration('code-review')?.enabled).toBe(false);
+  });
+
+  test('reports dependency state in registry stats', async () => {
+    await registry.registerAll([tool('git'), tool('code-review', ['git']), tool('screenshot')]);
+    registry.setEnabled('code-review', false);
+    registry.setEnabled('git', false);
+
+    expect(registry.getStats().dependencies).toEqual({
+      git: { dependsOn: [], requiredBy: ['code-review'], satisfied: true },
+      'code-review': { dependsOn: ['git'], requiredBy: [], satisfied: false }
+    });
+  });
+
+  test('unloads dependents before their dependencies on clear', async () => {
+    const unloaded: string[] = [];
+    const withUnload = (t: ToolCommand) => ({ ...t, onUnload: async () => { unloaded.push(t.name); } });
+    await registry.registerAll([
+      withUnload(tool('git')),
+      withUnload(tool('code-review', ['git'])),
+      withUnload(tool('release', ['code-review']))
+    ]);
+
+    await registry.clear();
+
+    expect(unloaded).toEqual(['release', 'code-review', 'git']);
+  });
+
+  test('discovery registers plugins across modules in dependency order', async () => {
+    fs.mkdirSync(pluginDir, { recursive: true });
+    const plugin = (name: string, dependencies: string[]) => `
+      import { z } from 'zod';
+      export const tool = {
+        name: '${name}',
+        description: 'Plugin ${name}',
+        schema: z.object({}),
+        metadata: { dependencies: ${JSON.stringify(dependencies)} },
+        execute: async () => '${name}'
+      };
+    `;
+    fs.writeFileSync(path.join(pluginDir, 'a-review.js'), plugin('review', ['git']));
+    fs.writeFileSync(path.join(pluginDir, 'b-git.js'), plugin('git', []));
+    fs.writeFileSync(path.join(pluginDir, 'c-orphan.js'), plugin('orphan', ['missing']));
+
+    const result = await new ToolDiscovery(registry, new EventBusClass()).discoverDirectory(pluginDir);
+
+    expect(result.registered).toEqual(['git', 'review']);
+    expect(result.errors).toEqual([{
+      module: path.join(pluginDir, 'c-orphan.js'),
+      message: "Tool 'orphan' depends on unregistered tool 'missing'"
+    }]);
+  });
+});
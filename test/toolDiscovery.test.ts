@@ -0,0 +1,104 @@
+import { describe, test, expect, beforeEach, afterAll } from 'bun:test';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { ToolDiscovery, PLUGIN_PACKAGE_FIELD } from '../src/core/ToolDiscovery.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const pluginDir = path.join(__dirname, 'fixtures', 'plugins');
+const projectDir = path.join(__dirname, 'temp-project');
+
+/**
+ * Build a throwaway project with one marked plugin package and one plain dependency
+ */
+function createProject() {
+  const pluginPackage = path.join(projectDir, 'node_modules', 'mcp-plugin-demo');
+  const plainPackage = path.join(projectDir, 'node_modules', 'unrelated');
+  fs.mkdirSync(pluginPackage, { recursive: true });
+  fs.mkdirSync(plainPackage, { recursive: true });
+
+  fs.writeFileSync(path.join(projectDir, 'package.json'), JSON.stringify({
+    name: 'fixture-project',
+    dependencies: { 'mcp-plugin-demo': '1.0.0', unrelated: '1.0.0' }
+  }));
+  fs.writeFileSync(path.join(pluginPackage, 'package.json'), JSON.stringify({
+    name: 'mcp-plugin-demo',
+    type: 'module',
+    [PLUGIN_PACKAGE_FIELD]: 'tools.js'
+  }));
+  fs.writeFileSync(path.join(pluginPackage, 'tools.js'), `
+    import { z } from 'zod';
+    export const demoTool = {
+      name: 'demo',
+      description: 'Tool shipped from an npm package',
+      schema: z.object({}),
+      execute: async () => 'demo'
+    };
+  `);
+  fs.writeFileSync(path.join(plainPackage, 'package.json'), JSON.stringify({ name: 'unrelated' }));
+}
+
+describe('ToolDiscovery', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let registry: ToolRegistry;
+  let discovery: ToolDiscovery;
+
+  beforeEach(() => {
+    bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    discovery = new ToolDiscovery(registry, bus);
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('registers valid tools from a plugin directory', async () => {
+    const result = await discovery.discoverDirectory(pluginDir);
+
+    expect(result.registered.sort()).toEqual(['bundle-one', 'greeting']);
+    expect(registry.getRegistration('greeting')?.source).toBe(path.join(pluginDir, 'greeting.js'));
+  });
+
+  test('reports load and validation errors in the completion event', async () => {
+    const events: any[] = [];
+    bus.on('registry:discovery:start', (data) => events.push({ type: 'start', ...data }));
+    bus.on('registry:discovery:complete', (data) => events.push({ type: 'complete', ...data }));
+
+    await discovery.discoverDirectory(pluginDir);
+
+    expect(events.map((e) => e.type)).toEqual(['start', 'complete']);
+    const complete = events[1];
+    expect(complete.discovered).toBe(2);
+    expect(complete.errors).toBe(3);
+
+    const messages = complete.loadErrors.map((e: any) => e.message).join('\n');
+    expect(messages).toContain('plugin exploded on import');
+    expect(messages).toContain("invalid tool name 'bundle two'");
+    expect(messages).toContain('No ToolCommand exports found');
+  });
+
+  test('reports duplicate tool names instead of throwing', async () => {
+    await discovery.discoverDirectory(pluginDir);
+    const second = await discovery.discoverDirectory(pluginDir);
+
+    expect(second.registered).toEqual([]);
+    expect(second.errors.some((e) => e.message.includes('already registered'))).toBe(true);
+  });
+
+  test('reports a missing plugin directory', async () => {
+    const result = await discovery.discoverDirectory(path.join(__dirname, 'no-such-dir'));
+    expect(result.errors[0].message).toContain('Plugin directory not found');
+  });
+
+  test('loads marked npm packages only', async () => {
+    createProject();
+    const result = await discovery.discoverPackages(projectDir);
+
+    expect(result.errors).toEqual([]);
+    expect(result.registered).toEqual(['demo']);
+  });
+});
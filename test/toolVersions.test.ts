@@ -0,0 +1,115 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { z } from 'zod';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { TOOL_NAME_PATTERN } from '../src/core/ToolDiscovery.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import { compareVersions, satisfiesRange } from '../src/core/toolVersions.js';
+import type { ToolCommand, ToolMetadata } from '../src/core/ToolCommand.js';
+import { callRequest } from './helpers.js';
+
+function greet(version: string | undefined, metadata?: ToolMetadata): ToolCommand {
+  return {
+    name: 'greet',
+    description: `Greet (v${version})`,
+    version,
+    schema: z.object({ name: z.string() }),
+    metadata,
+    execute: async ({ name }) => `v${version}: hello ${name}`
+  };
+}
+
+describe('Tool versions', () => {
+  let bus: InstanceType<typeof EventBusClass>;
+  let registry: ToolRegistry;
+  let dispatcher: CommandDispatcher;
+
+  beforeEach(async () => {
+    bus = new EventBusClass();
+    registry = new ToolRegistry(bus);
+    dispatcher = new CommandDispatcher(registry, bus);
+    await registry.registerAll([greet('1.0.0'), greet('1.2.0'), greet('2.0.0'), greet('3.0.0-beta.1')]);
+  });
+
+  test('orders versions by semver, prereleases before releases', () => {
+    expect(['1.10.0', '1.2.0', '2.0.0-rc.1', '2.0.0', '2.0.0-beta.2'].sort(compareVersions)).toEqual([
+      '1.2.0', '1.10.0', '2.0.0-beta.2', '2.0.0-rc.1', '2.0.0'
+    ]);
+    expect(satisfiesRange('1.2.3', '1')).toBe(true);
+    expect(satisfiesRange('1.2.3', '1.2')).toBe(true);
+    expect(satisfiesRange('1.2.3', '1.3')).toBe(false);
+    expect(satisfiesRange('1.2.3', '1.2.3')).toBe(true);
+  });
+
+  test('maps the bare name to the newest stable version and name@range to its newest match', () => {
+    expect(registry.get('greet')?.version).toBe('2.0.0');
+    expect(registry.get('greet@1')?.version).toBe('1.2.0');
+    expect(registry.get('greet@1.0')?.version).toBe('1.0.0');
+    expect(registry.get('greet@3')?.version).toBe('3.0.0-beta.1');
+    expect(registry.get('greet@4')).toBeUndefined();
+    expect(registry.getToolNames()).toEqual(['greet']);
+    expect(registry.getStats().versions).toEqual({ greet: ['3.0.0-beta.1', '2.0.0', '1.2.0', '1.0.0'] });
+
+    registry.setEnabled('greet@2', false);
+    expect(registry.get('greet')?.version).toBe('1.2.0');
+  });
+
+  test('lists older versions under name_v<major> for clients', () => {
+    const listed = registry.listCallable().map(({ name, tool, deprecation }) => ({
+      name, version: tool.version, deprecated: Boolean(deprecation)
+    }));
+    expect(listed).toEqual([
+      { name: 'greet_v1_0_0', version: '1.0.0', deprecated: true },
+      { name: 'greet_v1', version: '1.2.0', deprecated: true },
+      { name: 'greet', version: '2.0.0', deprecated: false },
+      { name: 'greet_v3', version: '3.0.0-beta.1', deprecated: false }
+    ]);
+    for (const { name } of registry.listCallable()) {
+      expect(name).toMatch(TOOL_NAME_PATTERN);
+      expect(registry.get(name)?.name).toBe('greet');
+    }
+    expect(registry.get('greet_v1_0_0')?.version).toBe('1.0.0');
+    expect(registry.get('greet_v3')?.version).toBe('3.0.0-beta.1');
+  });
+
+  test('dispatches pinned versions with a deprecation notice', async () => {
+    const notices: Array<{ name: string; version?: string; message: string }> = [];
+    bus.on('tool:deprecated', (data) => notices.push(data));
+
+    const latest = await dispatcher.dispatch(callRequest('greet', { name: 'Ada' }));
+    expect(latest.content).toEqual([{ type: 'text', text: 'v2.0.0: hello Ada' }]);
+
+    const pinned = await dispatcher.dispatch(callRequest('greet@1', { name: 'Ada' }));
+    expect(pinned.content[0].text).toBe('v1.2.0: hello Ada');
+    expect(pinned.content[1].text).toBe(
+      "⚠️ Deprecated: Tool 'greet' version 1.2.0 is deprecated. Call 'greet' for version 2.0.0."
+    );
+    expect(notices).toEqual([expect.objectContaining({ name: 'greet', version: '1.2.0' })]);
+  });
+
+  test('uses an explicit deprecation message', async () => {
+    await registry.register(greet('2.1.0', { deprecated: 'greet 2.1 leaks names; use greet@2.0' }));
+
+    const response = await dispatcher.dispatch(callRequest('greet', { name: 'Ada' }));
+    expect(response.content[1].text).toBe('⚠️ Deprecated: greet 2.1 leaks names; use greet@2.0');
+  });
+
+  test('rejects duplicate, invalid and mixed unversioned registrations', async () => {
+    await expect(registry.register(greet('2.0.0'))).rejects.toMatchObject({ code: 'DUPLICATE_TOOL' });
+    await expect(registry.register(greet('two'))).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(registry.register(greet(undefined))).rejects.toMatchObject({ code: 'DUPLICATE_TOOL' });
+  });
+
+  test('keeps a version another tool pins', async () => {
+    await registry.register({ ...greet(undefined), name: 'welcome', metadata: { dependencies: ['greet@1'] } });
+
+    expect(registry.getDependents('greet@1.2.0')).toEqual(['welcome']);
+    await expect(registry.unregister('greet@1.2.0')).resolves.toBe(true);
+    await expect(registry.unregister('greet@1.0.0')).rejects.toThrow(
+      "Cannot unregister 'greet@1.0.0': required by welcome"
+    );
+    await expect(registry.unregister('greet')).resolves.toBe(true);
+    expect(registry.get('greet')?.version).toBe('1.0.0');
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, test, expect, beforeEach, afterEach, afterAll } from 'bun:test';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+
+import { ToolRegistry } from '../src/core/ToolRegistry.js';
+import { CommandDispatcher } from '../src/core/CommandDispatcher.js';
+import { EventBusClass } from '../src/infra/eventBus.js';
+import {
+  JsonFileExporter,
+  OtlpHttpExporter,
+  SpanKind,
+  SpanStatusCode,
+  tracer,
+  type ReadableSpan,
+  type SpanExporter
+} from '../src/infra/tracing.js';
+import { callAIWithPersona } from '../src/common/personaClient.js';
+import type { ToolCommand } from '../src/core/ToolCommand.js';
+import { callRequest } from './helpers.js';
+import '../src/personas/charles/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const traceDir = path.join(__dirname, 'temp-tracing');
+
+class MemoryExporter implements SpanExporter {
+  spans: ReadableSpan[] = [];
+  async export(spans: ReadableSpan[]) {
+    this.spans.push(...spans);
+  }
+}
+
+const askTool: ToolCommand<{ question: string }> = {
+  name: 'ask-charles',
+  description: 'Ask Charles through the persona client',
+  schema: z.object({ question: z.string() }),
+  execute: async ({ question }, context) =>
+    callAIWithPersona({
+      systemPrompt: 'You are helpful',
+      task: question,
+      code: '',
+      analysisType: 'advice',
+      reasoningEffort: 'low',
+      personaId: 'charles',
+      providerOverride: 'xai',
+      // Fails before any network request, whether or not a key is set
+      signal: AbortSignal.abort(),
+      progress: context.progress
+    })
+};
+
+const nestedTool: ToolCommand<{ value: number }> = {
+  name: 'nested',
+  description: 'Does traced work of its own',
+  schema: z.object({ value: z.number() }),
+  execute: async ({ value }) =>
+    tracer.withSpan('inner', (span) => {
+      span.setAttribute('value', value);
+      return value * 2;
+    })
+};
+
+describe('Tracing', () => {
+  let exporter: MemoryExporter;
+  let dispatcher: CommandDispatcher;
+
+  beforeEach(async () => {
+    exporter = new MemoryExporter();
+    tracer.configure(exporter);
+
+    const bus = new EventBusClass();
+    const registry = new ToolRegistry(bus);
+    dispatcher = new CommandDispatcher(registry, bus);
+    await registry.register(askTool, 'test');
+    await registry.register(nestedTool, 'test');
+  });
+
+  afterEach(async () => {
+    await tracer.shutdown();
+  });
+
+  afterAll(() => {
+    fs.rmSync(traceDir, { recursive: true, force: true });
+  });
+
+  function spanNamed(name: string) {
+    const span = exporter.spans.find((candidate) => candidate.name === name);
+    expect(span).toBeDefined();
+    return span!;
+  }
+
+  test('records a span tree per call', async () => {
+    await dispatcher.dispatch(callRequest('nested', { value: 21 }));
+    await tracer.flush();
+
+    const root = spanNamed('tools/call nested');
+    const validate = spanNamed('validate');
+    const inner = spanNamed('inner');
+
+    expect(root.kind).toBe(SpanKind.SERVER);
+    expect(root.parentSpanId).toBeUndefined();
+    expect(root.attributes['mcp.tool.name']).toBe('nested');
+    expect(String(root.attributes['mcp.request.id'])).toStartWith('req_');
+    expect(validate.parentSpanId).toBe(root.spanId);
+    expect(inner.parentSpanId).toBe(root.spanId);
+    expect(inner.attributes.value).toBe(21);
+    expect(new Set(exporter.spans.map((span) => span.traceId)).size).toBe(1);
+    expect(inner.endTimeUnixNano).toBeGreaterThanOrEqual(inner.startTimeUnixNano);
+  });
+
+  test('marks failed calls with their error code', async () => {
+    await dispatcher.dispatch(callRequest('nested', { value: 'nope' }));
+    await tracer.flush();
+
+    expect(spanNamed('tools/call nested')).toMatchObject({
+      status: { code: SpanStatusCode.ERROR },
+      attributes: { 'error.code': 'VALIDATION_ERROR' }
+    });
+    expect(spanNamed('validate').status.code).toBe(SpanStatusCode.ERROR);
+  });
+
+  test('traces persona prompt assembly and the provider call', async () => {
+    await dispatcher.dispatch(callRequest('ask-charles', { question: 'Why?' }));
+    await tracer.flush();
+
+    const root = spanNamed('tools/call ask-charles');
+    const prompt = spanNamed('persona.prompt');
+    const provider = exporter.spans.find((span) => span.name.startsWith('chat '))!;
+
+    expect(prompt.parentSpanId).toBe(root.spanId);
+    expect(prompt.attributes['mcp.persona.id']).toBe('charles');
+    expect(provider.parentSpanId).toBe(root.spanId);
+    expect(provider.kind).toBe(SpanKind.CLIENT);
+    expect(provider.attributes).toMatchObject({
+      'gen_ai.system': 'xai',
+      'gen_ai.request.model': expect.any(String)
+    });
+    expect(provider.status.code).toBe(SpanStatusCode.ERROR);
+    expect(root.status.code).toBe(SpanStatusCode.ERROR);
+  });
+
+  test('records nothing without an exporter', async () => {
+    await tracer.shutdown();
+
+    const span = tracer.startSpan('ignored');
+    span.setAttribute('key', 'value');
+    span.end();
+
+    expect(span.recording).toBe(false);
+    expect(span.attributes).toEqual({});
+  });
+
+  test('writes OTLP/JSON lines to a file', async () => {
+    const filePath = path.join(traceDir, 'traces.jsonl');
+    fs.rmSync(filePath, { force: true });
+    tracer.configure(new JsonFileExporter(filePath), { serviceVersion: '9.9.9' });
+
+    await dispatcher.dispatch(callRequest('nested', { value: 1 }));
+    await tracer.flush();
+
+    const [line] = fs.readFileSync(filePath, 'utf8').trim().split('\n').map((l) => JSON.parse(l));
+    const resourceSpans = line.resourceSpans[0];
+    expect(resourceSpans.resource.attributes).toContainEqual({
+      key: 'service.version',
+      value: { stringValue: '9.9.9' }
+    });
+    const spans = resourceSpans.scopeSpans[0].spans;
+    expect(spans.map((span: any) => span.name)).toEqual(['validate', 'inner', 'tools/call nested']);
+    expect(spans[1].attributes).toContainEqual({ key: 'value', value: { intValue: '1' } });
+    expect(typeof spans[2].startTimeUnixNano).toBe('string');
+  });
+
+  test('posts OTLP/JSON to a collector', async () => {
+    const bodies: any[] = [];
+    const collector = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        bodies.push({ url: req.url, auth: req.headers.authorization, payload: JSON.parse(body) });
+        res.end('{}');
+      });
+    });
+    await new Promise<void>((resolve) => collector.listen(0, '127.0.0.1', resolve));
+    const { port } = collector.address() as { port: number };
+
+    try {
+      tracer.configure(new OtlpHttpExporter(`http://127.0.0.1:${port}/v1/traces`, { authorization: 'Bearer t' }));
+      await dispatcher.dispatch(callRequest('nested', { value: 1 }));
+      await tracer.flush();
+    } finally {
+      collector.close();
+    }
+
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0].url).toBe('/v1/traces');
+    expect(bodies[0].auth).toBe('Bearer t');
+    expect(bodies[0].payload.resourceSpans[0].scopeSpans[0].spans).toHaveLength(3);
+  });
+
+  test('gives up on a collector that never answers', async () => {
+    const collector = http.createServer(() => {
+      // Never respond
+    });
+    await new Promise<void>((resolve) => collector.listen(0, '127.0.0.1', resolve));
+    const { port } = collector.address() as { port: number };
+    const exporter = new OtlpHttpExporter(`http://127.0.0.1:${port}/v1/traces`, {}, 100);
+
+    try {
+      await expect(exporter.export([], {})).rejects.toThrow('did not respond within 100ms');
+    } finally {
+      collector.closeAllConnections();
+      collector.close();
+    }
+  });
+});